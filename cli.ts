@@ -1,10 +1,16 @@
 #!/usr/bin/env node
 
+import { readFileSync, writeFileSync } from 'fs';
 import { 
   binarySearch, 
   kmpSearch, 
   quickSort, 
   mergeSort, 
+  heapSort,
+  radixSort,
+  countingSort,
+  timSort,
+  externalSort,
   dfs, 
   bfs, 
   topologicalSort, 
@@ -16,7 +22,16 @@ import {
   knapsack, 
   lcs, 
   gcd,
-  convolution
+  convolution,
+  dijkstraPaths,
+  maxFlow,
+  parseDimacs,
+  parseEdgeList,
+  parseJsonAdjacency,
+  parseGraphML,
+  toDot,
+  type Graph,
+  type DotOptions
 } from './src/index.ts';
 
 interface CLIOptions {
@@ -25,6 +40,15 @@ interface CLIOptions {
   iterations?: number;
   help?: boolean;
   list?: boolean;
+  file?: string;
+  format?: string;
+  source?: string;
+  target?: string;
+  dot?: string;
+  output?: string;
+  memory?: number;
+  directed?: boolean;
+  oneBased?: boolean;
 }
 
 function parseArgs(): CLIOptions {
@@ -58,10 +82,41 @@ function parseArgs(): CLIOptions {
       case '--list':
         options.list = true;
         break;
+      case '-f':
+      case '--file':
+        options.file = args[++i];
+        break;
+      case '--format':
+        options.format = args[++i];
+        break;
+      case '-s':
+      case '--source':
+        options.source = args[++i];
+        break;
+      case '-t':
+      case '--target':
+        options.target = args[++i];
+        break;
+      case '--dot':
+        options.dot = args[++i];
+        break;
+      case '-o':
+      case '--output':
+        options.output = args[++i];
+        break;
+      case '--memory':
+        options.memory = parseFloat(args[++i]);
+        break;
+      case '--directed':
+        options.directed = true;
+        break;
+      case '--one-based':
+        options.oneBased = true;
+        break;
       default:
         if (!options.algorithm && !arg.startsWith('-')) {
           options.algorithm = arg;
-        } else if (arg.startsWith('-') && !['-a', '--algorithm', '-i', '--input', '-n', '--iterations', '-h', '--help', '-l', '--list'].includes(arg)) {
+        } else if (arg.startsWith('-') && !['-a', '--algorithm', '-i', '--input', '-n', '--iterations', '-h', '--help', '-l', '--list', '-f', '--file', '--format', '-s', '--source', '-t', '--target', '--dot', '-o', '--output', '--memory', '--directed', '--one-based'].includes(arg)) {
           // Unknown option, treat as algorithm name if no algorithm set
           if (!options.algorithm) {
             options.algorithm = arg;
@@ -85,6 +140,15 @@ Options:
   -a, --algorithm <name>    Algorithm to run
   -i, --input <data>        Input data (JSON string or file path)
   -n, --iterations <num>    Number of iterations (default: 1)
+  -f, --file <path>         Graph file (DIMACS .gr/.max, .json, .graphml, edge list)
+      --format <fmt>        Override detection: dimacs | json | graphml | edgelist
+      --directed            Treat edge-list edges as directed (default: undirected)
+      --one-based           Edge-list vertex ids start at 1 (-s/-t and output use them too)
+  -s, --source <vertex>     Source vertex for graph files: its id in the file or its label
+  -t, --target <vertex>     Target vertex for dijkstra/maxFlow on graph files
+      --dot <path>          Write the graph as DOT with the result highlighted
+  -o, --output <path>       Output file for externalSort
+      --memory <MiB>        Memory budget for externalSort (default: 64)
   -l, --list               List available algorithms
   -h, --help               Show this help message
 
@@ -94,12 +158,24 @@ Examples:
   node cli.js quickSort -i "[5,2,8,1,9]" -n 10
   node cli.js gcd -i "48,18"
   node cli.js knapsack -i "[60,100,120],[10,20,30],50"
+  node cli.js dijkstra -f road.gr -s 1 -t 42 --dot route.dot
+  node cli.js maxFlow -f network.max
+  node cli.js topologicalSort -f deps.txt --directed
+  node cli.js externalSort -f huge.log -o sorted.log --memory 256
+  node cli.js externalSort -f samples.bin -o sorted.bin --format float64
+
+Graph files work with: bfs, dfs, topologicalSort, dijkstra, kruskal, maxFlow
 
 Available Algorithms:
   - binarySearch: Binary search in sorted array
   - kmpSearch: KMP string pattern matching
   - quickSort: Quick sort algorithm
   - mergeSort: Merge sort algorithm
+  - heapSort: Heap sort algorithm
+  - radixSort: LSD radix sort (numbers)
+  - countingSort: Counting sort (small-range integers)
+  - timSort: TimSort-style adaptive merge sort
+  - externalSort: k-way external merge sort, file to file (lines or float64)
   - dfs: Depth-first search
   - bfs: Breadth-first search
   - topologicalSort: Topological sorting
@@ -107,6 +183,7 @@ Available Algorithms:
   - astarGrid: A* pathfinding on grid
   - dijkstra: Dijkstra's shortest path
   - kruskal: Kruskal's MST algorithm
+  - maxFlow: Dinic's maximum flow (graph files only)
   - binPow: Binary exponentiation
   - knapsack: 0/1 Knapsack problem
   - lcs: Longest Common Subsequence
@@ -125,6 +202,11 @@ Searching & Sorting:
   kmpSearch       - KMP string pattern matching
   quickSort       - Quick sort algorithm
   mergeSort       - Merge sort algorithm
+  heapSort        - Heap sort algorithm
+  radixSort       - LSD radix sort (numbers)
+  countingSort    - Counting sort (small-range integers)
+  timSort         - TimSort-style adaptive merge sort
+  externalSort    - External merge sort, file to file (-f, -o)
 
 Graph Algorithms:
   dfs             - Depth-first search
@@ -134,6 +216,7 @@ Graph Algorithms:
   astarGrid       - A* pathfinding on grid
   dijkstra        - Dijkstra's shortest path
   kruskal         - Kruskal's MST algorithm
+  maxFlow         - Dinic's maximum flow (graph files only)
 
 Mathematical:
   binPow          - Binary exponentiation
@@ -178,6 +261,10 @@ function parseInput(input: string, algorithm: string): any[] {
       
       case 'quickSort':
       case 'mergeSort':
+      case 'heapSort':
+      case 'radixSort':
+      case 'countingSort':
+      case 'timSort':
         return [JSON.parse(parts[0])];
       
       case 'gcd':
@@ -203,7 +290,7 @@ function parseInput(input: string, algorithm: string): any[] {
         });
     }
   } catch (error) {
-    throw new Error(`Invalid input format: ${error}`);
+    throw new Error(`Invalid input format: ${error instanceof Error ? error.message : error}`);
   }
 }
 
@@ -226,6 +313,15 @@ function runAlgorithm(algorithm: string, args: any[], iterations: number) {
         const msResult = mergeSort([...args[0]]);
         console.log(`Result: [${msResult.slice(0, 10).join(', ')}${msResult.length > 10 ? '...' : ''}]`);
         break;
+      case 'heapSort':
+      case 'radixSort':
+      case 'countingSort':
+      case 'timSort': {
+        const sort: (arr: number[]) => number[] = { heapSort, radixSort, countingSort, timSort }[algorithm]!;
+        const sorted = sort([...args[0]]);
+        console.log(`Result: [${sorted.slice(0, 10).join(', ')}${sorted.length > 10 ? '...' : ''}]`);
+        break;
+      }
       case 'dfs':
         console.log(`Result: ${dfs(args[0], args[1] || 0)}`);
         break;
@@ -233,14 +329,16 @@ function runAlgorithm(algorithm: string, args: any[], iterations: number) {
         console.log(`Result: ${bfs(args[0], args[1] || 0)}`);
         break;
       case 'topologicalSort':
-        console.log(`Result: [${topologicalSort(args[0]).join(', ')}]`);
+        const topo = topologicalSort(args[0], { witness: true });
+        console.log(topo.order ? `Result: [${topo.order.join(', ')}]` : `Cycle: [${topo.cycle.join(' -> ')}]`);
         break;
       case 'lca':
         const lca = new LCA(args[0], args[1]);
         console.log(`Result: ${lca.query(args[2], args[3])}`);
         break;
       case 'astarGrid':
-        console.log(`Result: ${astarGrid(args[0], args[1], args[2])}`);
+        const route = astarGrid(args[0], args[1], args[2]);
+        console.log(route ? `Result: ${JSON.stringify(route.path)} (cost ${route.cost})` : 'Result: no path');
         break;
       case 'dijkstra':
         console.log(`Result: [${dijkstra(args[0], args[1]).slice(0, 10).join(', ')}...]`);
@@ -275,6 +373,115 @@ function runAlgorithm(algorithm: string, args: any[], iterations: number) {
   console.log(`Average time per iteration: ${(duration / iterations).toFixed(3)}ms`);
 }
 
+interface LoadedGraph {
+  graph: Graph;
+  source?: number;
+  sink?: number;
+}
+
+// Format from --format or the file extension; anything unknown is an edge list.
+// Only edge lists need --directed: DIMACS and JSON adjacency are directed and
+// GraphML declares its own edgedefault.
+function loadGraphFile(path: string, options: CLIOptions): LoadedGraph {
+  const { format, oneBased } = options;
+  const directed = options.directed ?? false;
+  const text = readFileSync(path, 'utf8');
+  const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  const kind = format ?? (['gr', 'dimacs', 'max'].includes(ext) ? 'dimacs' : ext === 'json' ? 'json' : ext === 'graphml' ? 'graphml' : 'edgelist');
+  switch (kind) {
+    case 'dimacs': {
+      const { graph, source, sink } = parseDimacs(text);
+      return { graph, source, sink };
+    }
+    case 'json':
+      return { graph: parseJsonAdjacency(text) };
+    case 'graphml':
+      return { graph: parseGraphML(text) };
+    case 'edgelist':
+      return { graph: parseEdgeList(text, { directed, oneBased }) };
+    default:
+      throw new Error(`Unknown graph format: ${kind}`);
+  }
+}
+
+// Vertices are given by label when the file has labels (which DIMACS and
+// --one-based files get from their own 1-based ids), else by 0-based id.
+function resolveVertex(g: Graph, v: string): number {
+  if (g.labels) return g.id(v);
+  const id = Number(v);
+  if (!Number.isInteger(id) || id < 0 || id >= g.n) throw new Error(`Vertex out of range: ${v}`);
+  return id;
+}
+
+function runGraphFile(options: CLIOptions) {
+  const { graph: g, source, sink } = loadGraphFile(options.file!, options);
+  const s = options.source !== undefined ? resolveVertex(g, options.source) : source ?? 0;
+  const t = options.target !== undefined ? resolveVertex(g, options.target) : sink;
+  const names = (vs: number[]) => vs.map(v => g.label(v));
+  console.log(`Loaded ${options.file}: ${g.n} vertices, ${g.edges().length} edges (${g.directed ? 'directed' : 'undirected'})\n`);
+  const highlight: DotOptions = {};
+  switch (options.algorithm) {
+    case 'bfs':
+    case 'dfs': {
+      const order = options.algorithm === 'bfs' ? bfs(g, s) : dfs(g, s);
+      console.log(`Result: [${names(order).join(', ')}]`);
+      break;
+    }
+    case 'topologicalSort': {
+      const topo = topologicalSort(g, { witness: true });
+      console.log(topo.order ? `Result: [${names(topo.order).join(', ')}]` : `Cycle: [${names(topo.cycle).join(' -> ')}]`);
+      highlight.path = topo.cycle ?? undefined;
+      break;
+    }
+    case 'dijkstra': {
+      const res = dijkstraPaths(g, s, { target: t });
+      if (t === undefined) {
+        console.log(`Result: [${res.dist.slice(0, 10).join(', ')}${g.n > 10 ? '...' : ''}]`);
+        break;
+      }
+      const path = res.pathTo(t);
+      console.log(path ? `Result: ${names(path).join(' -> ')} (cost ${res.dist[t]})` : 'Result: no path');
+      highlight.path = path ?? undefined;
+      break;
+    }
+    case 'kruskal': {
+      const mst = kruskal(g);
+      console.log(`Result: ${mst.length} edges, total weight ${mst.reduce((sum, [, , w]) => sum + w, 0)}`);
+      highlight.edges = mst;
+      break;
+    }
+    case 'maxFlow': {
+      if (t === undefined) throw new Error('maxFlow needs a sink (--target or a DIMACS "n <id> t" line)');
+      const res = maxFlow(g, s, t);
+      const cut = res.cutEdges.map(i => g.edges()[i]);
+      console.log(`Result: ${res.value} (min cut: ${cut.map(([u, v]) => `${g.label(u)}-${g.label(v)}`).join(', ')})`);
+      highlight.edges = cut;
+      break;
+    }
+    default:
+      throw new Error(`Algorithm ${options.algorithm} does not take graph files`);
+  }
+  if (options.dot) {
+    writeFileSync(options.dot, toDot(g, { name: options.algorithm, ...highlight }) + '\n');
+    console.log(`DOT written to ${options.dot}`);
+  }
+}
+
+async function runExternalSort(options: CLIOptions) {
+  if (!options.file || !options.output) throw new Error('externalSort needs --file <input> and --output <path>');
+  if (options.format && options.format !== 'lines' && options.format !== 'float64') {
+    throw new Error(`Unknown record format: ${options.format} (use lines or float64)`);
+  }
+  const startTime = process.hrtime.bigint();
+  const stats = await externalSort(options.file, options.output, {
+    format: options.format as 'lines' | 'float64' | undefined,
+    memoryBytes: options.memory ? options.memory * 1024 * 1024 : undefined
+  });
+  const duration = Number(process.hrtime.bigint() - startTime) / 1_000_000;
+  console.log(`Sorted ${stats.records} records into ${options.output} (${stats.runs} runs, ${stats.mergePasses} merge passes)`);
+  console.log(`\nExecution time: ${duration.toFixed(3)}ms`);
+}
+
 function main() {
   const options = parseArgs();
   
@@ -294,6 +501,24 @@ function main() {
     process.exit(1);
   }
   
+  if (options.algorithm === 'externalSort') {
+    runExternalSort(options).catch(error => {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    });
+    return;
+  }
+
+  if (options.file) {
+    try {
+      runGraphFile(options);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    return;
+  }
+
   if (!options.input) {
     console.error('Error: Input data is required');
     console.log('Use --help for usage information');
@@ -307,7 +532,7 @@ function main() {
     
     runAlgorithm(options.algorithm, args, options.iterations || 1);
   } catch (error) {
-    console.error(`Error: ${error}`);
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
     process.exit(1);
   }
 }
@@ -96,8 +96,8 @@ const gameMap = [
 const path = astarGrid([0, 0], [4, 4], gameMap);
 console.log('Finding path from top-left to bottom-right...');
 if (path) {
-  console.log('Path found:');
-  path.forEach(([x, y], i) => {
+  console.log(`Path found (cost ${path.cost}):`);
+  path.path.forEach(([x, y], i) => {
     console.log(`  Step ${i + 1}: (${x}, ${y})`);
   });
 } else {
@@ -7,13 +7,22 @@ import {
   kmpSearch,
   quickSort,
   mergeSort,
+  heapSort,
+  radixSort,
+  countingSort,
+  timSort,
+  parallelSort,
   convolution,
   dfs,
   bfs,
   topologicalSort,
   LCA,
   astarGrid,
+  jumpPointSearch,
+  bidirectionalSearch,
   dijkstra,
+  floydWarshall,
+  johnson,
   kruskal,
   binPow,
   knapsack,
@@ -30,7 +39,7 @@ import {
    For each algorithm we run a representative input with multiple iterations and print average + median.
 */
 
-type Benchmark = { name: string; fn: () => void; warmup?: number; iters?: number };
+type Benchmark = { name: string; fn: () => void | Promise<void>; warmup?: number; iters?: number };
 
 interface BenchmarkResult {
   name: string;
@@ -206,12 +215,70 @@ async function runBenchmarks() {
     iters: 3
   });
 
+  const reversed = arr.slice(0, 100_000).reverse();
+  const duplicates = shuffled.slice(0, 100_000).map(x => x % 10);
+  benches.push({
+    name: "QuickSort (100k sorted)",
+    fn: () => { quickSort(arr.slice(0, 100_000), { seed: 1 }); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "QuickSort (100k reversed)",
+    fn: () => { quickSort(reversed, { seed: 1 }); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "QuickSort (100k, 10 distinct keys)",
+    fn: () => { quickSort(duplicates, { seed: 1 }); },
+    iters: 3
+  });
+
   benches.push({
     name: "MergeSort (100k)",
     fn: () => { mergeSort(shuffled.slice(0, 100_000)); },
     iters: 3
   });
 
+  benches.push({
+    name: "HeapSort (100k)",
+    fn: () => { heapSort(shuffled.slice(0, 100_000)); },
+    iters: 3
+  });
+
+  const int32Keys = Int32Array.from({ length: 1_000_000 }, () => (Math.random() * 2 ** 32) | 0);
+  benches.push({
+    name: "RadixSort (Int32Array 1M)",
+    fn: () => { radixSort(int32Keys); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "CountingSort (100k, 10 distinct keys)",
+    fn: () => { countingSort(duplicates); },
+    iters: 3
+  });
+
+  // sorted log with 1% of entries out of place
+  const nearlySorted = arr.slice(0, 100_000).map((x, i) => (i % 100 === 0 ? Math.floor(Math.random() * 100_000) : x));
+  benches.push({
+    name: "TimSort (100k nearly sorted)",
+    fn: () => { timSort(nearlySorted); },
+    iters: 3
+  });
+
+  // parallel vs single-threaded at 1M and 10M doubles
+  for (const size of [1_000_000, 10_000_000]) {
+    const label = size === 1_000_000 ? '1M' : '10M';
+    const doubles = Float64Array.from({ length: size }, () => Math.random());
+    const iters = size === 1_000_000 ? 3 : 1;
+    benches.push({ name: `ParallelSort (Float64Array ${label})`, fn: async () => { await parallelSort(doubles); }, iters });
+    benches.push({ name: `MergeSort (Float64Array ${label})`, fn: () => { mergeSort(doubles); }, iters });
+    benches.push({ name: `QuickSort (Float64Array ${label})`, fn: () => { quickSort(doubles); }, iters });
+    benches.push({ name: `RadixSort (Float64Array ${label})`, fn: () => { radixSort(doubles); }, iters });
+  }
+
   benches.push({
     name: "FFT convolution (n ~ 2^14)",
     fn: () => {
@@ -297,6 +364,68 @@ async function runBenchmarks() {
     iters: 3
   });
 
+  // same obstacle density as the A* case above; endpoints kept open
+  const obstacleGrid = (r: number, c: number) => {
+    const grid = Array.from({ length: r }, () => new Array(c).fill(0));
+    for (let k = 0; k < r * c * 0.05; k++) {
+      grid[Math.floor(Math.random() * r)][Math.floor(Math.random() * c)] = 1;
+    }
+    grid[0][0] = grid[r - 1][c - 1] = 0;
+    return grid;
+  };
+
+  benches.push({
+    name: "A* 8-way (grid 200x200)",
+    fn: () => { astarGrid([0,0], [199,199], obstacleGrid(200, 200), { diagonal: true }); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "Jump Point Search (grid 200x200)",
+    fn: () => { jumpPointSearch([0,0], [199,199], obstacleGrid(200, 200)); },
+    iters: 3
+  });
+
+  // one shared 1000x1000 grid, built outside the timed part, so the grid
+  // searches are compared on identical input
+  const largeGrid = obstacleGrid(1000, 1000);
+
+  benches.push({
+    name: "A* 8-way (grid 1000x1000)",
+    fn: () => { astarGrid([0,0], [999,999], largeGrid, { diagonal: true }); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "Jump Point Search (grid 1000x1000)",
+    fn: () => { jumpPointSearch([0,0], [999,999], largeGrid); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "Bidirectional A* 8-way (grid 1000x1000)",
+    fn: () => { bidirectionalSearch([0,0], [999,999], largeGrid, { diagonal: true }); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "Bidirectional BFS (grid 1000x1000)",
+    fn: () => { bidirectionalSearch([0,0], [999,999], largeGrid); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "Bidirectional A* 8-way (grid 200x200)",
+    fn: () => { bidirectionalSearch([0,0], [199,199], obstacleGrid(200, 200), { diagonal: true }); },
+    iters: 3
+  });
+
+  benches.push({
+    name: "Bidirectional BFS (grid 200x200)",
+    fn: () => { bidirectionalSearch([0,0], [199,199], obstacleGrid(200, 200)); },
+    iters: 3
+  });
+
   benches.push({
     name: "Dijkstra (sparse graph 5k nodes, 20k edges)",
     fn: () => {
@@ -313,6 +442,37 @@ async function runBenchmarks() {
     iters: 2
   });
 
+  benches.push({
+    name: "Floyd-Warshall (dense graph 300 nodes)",
+    fn: () => {
+      const n = 300;
+      const adj: Array<Array<[number, number]>> = Array.from({ length: n }, () => []);
+      for (let u = 0; u < n; u++) {
+        for (let v = 0; v < n; v++) {
+          if (u !== v && Math.random() < 0.3) adj[u].push([v, Math.floor(Math.random() * 10) + 1]);
+        }
+      }
+      floydWarshall(adj);
+    },
+    iters: 2
+  });
+
+  benches.push({
+    name: "Johnson (sparse graph 1k nodes, 5k edges)",
+    fn: () => {
+      const n = 1000;
+      const adj: Array<Array<[number, number]>> = Array.from({ length: n }, () => []);
+      // edges only go forward, so negative weights cannot form a cycle
+      for (let i = 0; i < 5000; i++) {
+        const u = Math.floor(Math.random() * (n - 1));
+        const v = u + 1 + Math.floor(Math.random() * (n - u - 1));
+        adj[u].push([v, Math.floor(Math.random() * 20) - 5]);
+      }
+      johnson(adj);
+    },
+    iters: 2
+  });
+
   benches.push({
     name: "Kruskal (MST edges 50k)",
     fn: () => {
@@ -377,14 +537,14 @@ async function runBenchmarks() {
     // warmup
     if (b.warmup) {
       console.log(`   Warming up (${b.warmup} iterations)...`);
-      for (let w = 0; w < b.warmup; w++) b.fn();
+      for (let w = 0; w < b.warmup; w++) await b.fn();
     }
     
     // benchmark iterations
     console.log(`   Benchmarking (${iters} iterations)...`);
     for (let j = 0; j < iters; j++) {
       const t0 = now();
-      b.fn();
+      await b.fn();
       const t1 = now();
       const duration = t1 - t0;
       times.push(duration);
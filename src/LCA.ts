@@ -1,17 +1,26 @@
 // Lowest Common Ancestor (binary lifting)
+// Accepts a forest: every vertex not reached from `root` starts another tree.
+import { Graph, adjacencyOf } from './graph';
+
 export class LCA {
   n: number;
   LOG: number;
   up: number[][];
   depth: number[];
   adj: number[][];
-  constructor(adj: number[][], root = 0) {
+  treeRoot: number[]; // root of the tree containing each vertex
+  constructor(adj: number[][], root?: number);
+  constructor(g: Graph, root?: number);
+  constructor(input: Graph | number[][], root = 0) {
+    const adj = adjacencyOf(input);
     this.n = adj.length;
     this.adj = adj;
     this.LOG = Math.ceil(Math.log2(Math.max(2, this.n)));
     this.up = Array.from({ length: this.LOG }, () => new Array(this.n).fill(-1));
     this.depth = new Array(this.n).fill(0);
-    this.dfs(root, root);
+    this.treeRoot = new Array(this.n).fill(-1);
+    if (this.n > 0) this.build(root);
+    for (let v = 0; v < this.n; v++) if (this.treeRoot[v] === -1) this.build(v);
     for (let k = 1; k < this.LOG; k++) {
       for (let v = 0; v < this.n; v++) {
         const mid = this.up[k - 1][v];
@@ -19,14 +28,24 @@ export class LCA {
       }
     }
   }
-  private dfs(u: number, p: number) {
-    this.up[0][u] = p;
-    for (const v of this.adj[u]) if (v !== p) {
-      this.depth[v] = this.depth[u] + 1;
-      this.dfs(v, u);
+  // Explicit stack so path-like trees do not overflow the call stack.
+  private build(r: number) {
+    this.up[0][r] = r;
+    this.treeRoot[r] = r;
+    const stack = [r];
+    while (stack.length) {
+      const u = stack.pop()!;
+      for (const v of this.adj[u]) if (this.treeRoot[v] === -1) {
+        this.treeRoot[v] = r;
+        this.up[0][v] = u;
+        this.depth[v] = this.depth[u] + 1;
+        stack.push(v);
+      }
     }
   }
+  // -1 when u and v lie in different trees.
   query(u: number, v: number): number {
+    if (this.treeRoot[u] !== this.treeRoot[v]) return -1;
     if (this.depth[u] < this.depth[v]) [u, v] = [v, u];
     let diff = this.depth[u] - this.depth[v];
     for (let k = 0; k < this.LOG; k++) if (diff & (1 << k)) u = this.up[k][u];
@@ -39,4 +58,27 @@ export class LCA {
     }
     return this.up[0][u];
   }
+  // Ancestor k levels above v (k = 0 gives v), -1 past the root.
+  kthAncestor(v: number, k: number): number {
+    if (k < 0 || k > this.depth[v]) return -1;
+    for (let b = 0; b < this.LOG; b++) if (k & (1 << b)) v = this.up[b][v];
+    return v;
+  }
+  // Number of edges between u and v, -1 across trees.
+  distance(u: number, v: number): number {
+    const a = this.query(u, v);
+    if (a === -1) return -1;
+    return this.depth[u] + this.depth[v] - 2 * this.depth[a];
+  }
+  // Vertices on the tree path from u to v inclusive, null across trees.
+  pathNodes(u: number, v: number): number[] | null {
+    const a = this.query(u, v);
+    if (a === -1) return null;
+    const left: number[] = [];
+    for (let x = u; x !== a; x = this.up[0][x]) left.push(x);
+    left.push(a);
+    const right: number[] = [];
+    for (let x = v; x !== a; x = this.up[0][x]) right.push(x);
+    return left.concat(right.reverse());
+  }
 }
@@ -0,0 +1,60 @@
+// A* Search (generic graph, binary-heap open set)
+// With an admissible heuristic the first time `goal` is popped its cost is optimal.
+import { Graph, type WeightedAdjacency } from './graph';
+import { MinHeap } from './minHeap';
+
+// Graph given by a successor function, for graphs too large or too regular
+// to materialise (grids, state spaces). Vertices are 0..size-1.
+export interface ImplicitGraph {
+  size: number;
+  successors(u: number): Iterable<[number, number]>; // [v, weight]
+}
+
+export interface AStarResult {
+  path: number[];
+  cost: number;
+  expanded: number; // vertices popped from the open set
+}
+
+function toImplicit(input: Graph | WeightedAdjacency | ImplicitGraph): ImplicitGraph {
+  if (input instanceof Graph) return { size: input.n, successors: u => input.adj[u] };
+  if (Array.isArray(input)) return { size: input.length, successors: u => input[u] };
+  return input;
+}
+
+export function astar(
+  input: Graph | WeightedAdjacency | ImplicitGraph,
+  start: number,
+  goal: number,
+  heuristic: (v: number) => number = () => 0
+): AStarResult | null {
+  const g = toImplicit(input);
+  const gScore = new Float64Array(g.size).fill(Infinity);
+  const parent = new Int32Array(g.size).fill(-1);
+  const closed = new Uint8Array(g.size);
+  const open = new MinHeap<number>();
+  gScore[start] = 0;
+  open.push(heuristic(start), start);
+  let expanded = 0;
+  while (open.size()) {
+    const u = open.pop()!.val;
+    if (closed[u]) continue; // stale entry
+    closed[u] = 1;
+    expanded++;
+    if (u === goal) {
+      const path: number[] = [];
+      for (let v = goal; v !== -1; v = parent[v]) path.push(v);
+      return { path: path.reverse(), cost: gScore[goal], expanded };
+    }
+    for (const [v, w] of g.successors(u)) {
+      const tentative = gScore[u] + w;
+      if (tentative < gScore[v]) {
+        gScore[v] = tentative;
+        parent[v] = u;
+        closed[v] = 0; // reopen if an inconsistent heuristic closed it too early
+        open.push(tentative + heuristic(v), v);
+      }
+    }
+  }
+  return null;
+}
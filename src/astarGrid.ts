@@ -1,48 +1,68 @@
 // A* Search (grid heuristic example)
-type NodeKey = string;
-function key(x: number, y: number) { return `${x},${y}`; }
-export function astarGrid(start: [number, number], goal: [number, number], grid: number[][]) {
-  const R = grid.length, C = grid[0].length;
-  const inBounds = (x: number, y: number) => x >= 0 && y >= 0 && x < R && y < C;
-  const h = (x: number, y: number) => Math.abs(x - goal[0]) + Math.abs(y - goal[1]); // manhattan
-  const open = new Map<NodeKey, number>();
-  const gScore = new Map<NodeKey, number>();
-  const parent = new Map<NodeKey, NodeKey | null>();
-  const startKey = key(start[0], start[1]);
-  open.set(startKey, h(start[0], start[1]));
-  gScore.set(startKey, 0);
-  parent.set(startKey, null);
-  const dirs = [[1,0],[-1,0],[0,1],[0,-1]];
-  while (open.size) {
-    let curKey: NodeKey | null = null;
-    let curF = Infinity;
-    for (const [k, f] of open) if (f < curF) { curF = f; curKey = k; }
-    if (!curKey) break;
-    open.delete(curKey);
-    const [cx, cy] = curKey.split(',').map(Number);
-    if (cx === goal[0] && cy === goal[1]) {
-      const path: [number, number][] = [];
-      let p: NodeKey | null = curKey;
-      while (p) {
-        const [px, py] = p.split(',').map(Number);
-        path.push([px, py]);
-        p = parent.get(p) ?? null;
-      }
-      path.reverse();
-      return path;
-    }
-    const gCur = gScore.get(curKey)!;
-    for (const [dx, dy] of dirs) {
-      const nx = cx + dx, ny = cy + dy;
-      if (!inBounds(nx, ny) || grid[nx][ny] === 1) continue;
-      const nk = key(nx, ny);
-      const tentativeG = gCur + 1;
-      if (tentativeG < (gScore.get(nk) ?? Infinity)) {
-        parent.set(nk, curKey);
-        gScore.set(nk, tentativeG);
-        open.set(nk, tentativeG + h(nx, ny));
-      }
-    }
+// Thin layer over the generic `astar`: cells are numbered x * cols + y.
+import { astar } from './astar';
+
+export type GridHeuristic = 'manhattan' | 'octile' | 'euclidean';
+
+export interface GridOptions {
+  diagonal?: boolean; // 8-way moves; corners of blocked cells cannot be cut
+  weights?: number[][]; // cost of entering each cell (default 1)
+  heuristic?: GridHeuristic; // default manhattan (4-way) or octile (8-way); manhattan overestimates 8-way moves
+}
+
+export interface GridPath {
+  path: [number, number][];
+  cost: number;
+}
+
+const SQRT2 = Math.SQRT2;
+
+export const gridHeuristics: Record<GridHeuristic, (dx: number, dy: number) => number> = {
+  manhattan: (dx, dy) => dx + dy,
+  octile: (dx, dy) => Math.max(dx, dy) + (SQRT2 - 1) * Math.min(dx, dy),
+  euclidean: (dx, dy) => Math.sqrt(dx * dx + dy * dy)
+};
+
+// Movement rules shared by every grid search here (bidirectionalSearch,
+// DStarLite, gridGraph; jumpPointSearch encodes the same rules in its scans).
+export const gridDirs4: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+export const gridDirs8: [number, number][] = [...gridDirs4, [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+export function freeCell(grid: number[][], x: number, y: number) {
+  return x >= 0 && y >= 0 && x < grid.length && y < grid[0].length && grid[x][y] !== 1;
+}
+
+// Calls visit(nx, ny, step) for every legal move out of (x, y): into a free
+// cell, and diagonally only if both cells beside the move are free (no corner
+// cutting). step is the move length, 1 or √2.
+export function gridMoves(grid: number[][], x: number, y: number, diagonal: boolean, visit: (nx: number, ny: number, step: number) => void) {
+  for (const [dx, dy] of diagonal ? gridDirs8 : gridDirs4) {
+    if (!freeCell(grid, x + dx, y + dy)) continue;
+    if (dx && dy && (!freeCell(grid, x + dx, y) || !freeCell(grid, x, y + dy))) continue;
+    visit(x + dx, y + dy, dx && dy ? SQRT2 : 1);
+  }
+}
+
+export function astarGrid(start: [number, number], goal: [number, number], grid: number[][], options: GridOptions = {}): GridPath | null {
+  const C = grid[0].length;
+  const { diagonal = false, weights } = options;
+  if (!freeCell(grid, start[0], start[1]) || !freeCell(grid, goal[0], goal[1])) return null;
+  // scale by the cheapest cell so the heuristic stays admissible
+  let minWeight = 1;
+  if (weights) {
+    minWeight = Infinity;
+    for (const row of weights) for (const w of row) minWeight = Math.min(minWeight, w);
   }
-  return null;
+  const dist = gridHeuristics[options.heuristic ?? (diagonal ? 'octile' : 'manhattan')];
+  const h = (id: number) => minWeight * dist(Math.abs(Math.floor(id / C) - goal[0]), Math.abs(id % C - goal[1]));
+  const successors = (id: number) => {
+    const out: [number, number][] = [];
+    gridMoves(grid, Math.floor(id / C), id % C, diagonal, (nx, ny, step) => {
+      out.push([nx * C + ny, step * (weights ? weights[nx][ny] : 1)]);
+    });
+    return out;
+  };
+  const res = astar({ size: grid.length * C, successors }, start[0] * C + start[1], goal[0] * C + goal[1], h);
+  if (!res) return null;
+  return { path: res.path.map(id => [Math.floor(id / C), id % C] as [number, number]), cost: res.cost };
 }
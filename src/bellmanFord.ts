@@ -0,0 +1,116 @@
+// Bellman-Ford / SPFA Shortest Path (negative weights, negative-cycle detection)
+// Same weighted adjacency as dijkstra. O(nm) worst case for both variants.
+import { Graph, weightedAdjacencyOf, type WeightedAdjacency } from './graph';
+
+export interface BellmanFordResult {
+  dist: number[];
+  prev: number[];
+  negativeCycle: number[] | null; // vertices of one reachable negative cycle, in edge order
+  pathTo(v: number): number[] | null;
+}
+
+// Any cycle in the predecessor graph has negative total weight, so once
+// relaxation fails to converge it is enough to find one there.
+function findPredecessorCycle(prev: number[]): number[] | null {
+  const n = prev.length;
+  const state = new Array(n).fill(0); // 0 = unseen, 1 = on current walk, 2 = done
+  for (let s = 0; s < n; s++) {
+    if (state[s]) continue;
+    let u = s;
+    while (u !== -1 && state[u] === 0) {
+      state[u] = 1;
+      u = prev[u];
+    }
+    if (u !== -1 && state[u] === 1) {
+      const cycle: number[] = [u];
+      for (let x = prev[u]; x !== u; x = prev[x]) cycle.push(x);
+      return cycle.reverse();
+    }
+    for (let x = s; x !== -1 && state[x] === 1; x = prev[x]) state[x] = 2;
+  }
+  return null;
+}
+
+function makeResult(dist: number[], prev: number[], negativeCycle: number[] | null): BellmanFordResult {
+  const pathTo = (v: number) => {
+    if (dist[v] === Infinity) return null;
+    const path: number[] = [];
+    for (let u = v; u !== -1; u = prev[u]) {
+      // paths that run into a negative cycle have no shortest version
+      if (path.length > prev.length) return null;
+      path.push(u);
+    }
+    return path.reverse();
+  };
+  return { dist, prev, negativeCycle, pathTo };
+}
+
+export function bellmanFord(input: Graph | WeightedAdjacency, src: number): BellmanFordResult {
+  const adj = weightedAdjacencyOf(input);
+  const n = adj.length;
+  const dist = new Array(n).fill(Infinity);
+  const prev = new Array(n).fill(-1);
+  dist[src] = 0;
+  let changed = true;
+  // n - 1 passes settle every shortest path; a change after that means a
+  // negative cycle, which shows up in prev once relaxation has run round it
+  for (let pass = 0; changed; pass++) {
+    if (pass >= n) {
+      const cycle = findPredecessorCycle(prev);
+      if (cycle) return makeResult(dist, prev, cycle);
+    }
+    changed = false;
+    for (let u = 0; u < n; u++) {
+      if (dist[u] === Infinity) continue;
+      for (const [v, w] of adj[u]) {
+        if (dist[u] + w < dist[v]) {
+          dist[v] = dist[u] + w;
+          prev[v] = u;
+          changed = true;
+        }
+      }
+    }
+  }
+  return makeResult(dist, prev, null);
+}
+
+// Shortest Path Faster Algorithm: Bellman-Ford driven by a FIFO of vertices
+// whose distance just dropped. Usually far fewer relaxations in practice.
+export function spfa(input: Graph | WeightedAdjacency, src: number): BellmanFordResult {
+  const adj = weightedAdjacencyOf(input);
+  const n = adj.length;
+  const dist = new Array(n).fill(Infinity);
+  const prev = new Array(n).fill(-1);
+  const inQueue = new Array(n).fill(false);
+  const edgeCount = new Array(n).fill(0); // edges on the current path to v
+  const q: number[] = [src];
+  let head = 0;
+  dist[src] = 0;
+  inQueue[src] = true;
+  while (head < q.length) {
+    const u = q[head++];
+    inQueue[u] = false;
+    for (const [v, w] of adj[u]) {
+      if (dist[u] + w < dist[v]) {
+        dist[v] = dist[u] + w;
+        prev[v] = u;
+        edgeCount[v] = edgeCount[u] + 1;
+        // a simple shortest path has at most n - 1 edges
+        if (edgeCount[v] >= n) {
+          const cycle = findPredecessorCycle(prev);
+          if (cycle) return makeResult(dist, prev, cycle);
+        }
+        if (!inQueue[v]) {
+          inQueue[v] = true;
+          q.push(v);
+        }
+      }
+    }
+    // keep the backing array from growing without bound
+    if (head > 1024 && head * 2 > q.length) {
+      q.splice(0, head);
+      head = 0;
+    }
+  }
+  return makeResult(dist, prev, null);
+}
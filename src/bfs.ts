@@ -1,20 +1,58 @@
 // Breadth-First Search
-export function bfs(adj: number[][], start: number): number[] {
+// Iterative with a head index instead of q.shift(), so each pop is O(1).
+import { Graph, adjacencyOf } from './graph';
+
+export type BfsEdgeKind = 'tree' | 'nontree';
+
+export interface BfsVisitor {
+  onDiscover?: (v: number, parent: number) => void; // parent is -1 for roots
+  onEdge?: (u: number, v: number, kind: BfsEdgeKind) => void;
+  onFinish?: (v: number) => void; // after all of v's edges were scanned
+}
+
+export interface BfsResult {
+  order: number[];
+  parent: number[]; // -1 for roots and unreached vertices
+  level: number[]; // edges from the root, -1 when unreached
+}
+
+// Without `start` every vertex is covered, restarting from the lowest
+// unvisited id (a BFS forest).
+export function bfsVisit(input: Graph | number[][], start?: number, visitor: BfsVisitor = {}): BfsResult {
+  const adj = adjacencyOf(input);
   const n = adj.length;
-  const visited = new Array(n).fill(false);
+  const parent = new Array(n).fill(-1);
+  const level = new Array(n).fill(-1);
+  const order: number[] = [];
   const q: number[] = [];
-  const out: number[] = [];
-  visited[start] = true;
-  q.push(start);
-  while (q.length) {
-    const u = q.shift()!;
-    out.push(u);
-    for (const v of adj[u]) {
-      if (!visited[v]) {
-        visited[v] = true;
-        q.push(v);
+  const roots = start === undefined ? adj.keys() : [start];
+  for (const root of roots) {
+    if (level[root] !== -1) continue;
+    level[root] = 0;
+    visitor.onDiscover?.(root, -1);
+    q.push(root);
+    for (let head = q.length - 1; head < q.length; head++) {
+      const u = q[head];
+      order.push(u);
+      for (const v of adj[u]) {
+        if (level[v] === -1) {
+          level[v] = level[u] + 1;
+          parent[v] = u;
+          visitor.onEdge?.(u, v, 'tree');
+          visitor.onDiscover?.(v, u);
+          q.push(v);
+        } else {
+          visitor.onEdge?.(u, v, 'nontree');
+        }
       }
+      visitor.onFinish?.(u);
     }
   }
-  return out;
+  return { order, parent, level };
+}
+
+export function bfs(adj: number[][], start: number): number[];
+export function bfs(g: Graph, start: number): number[];
+export function bfs(input: Graph | number[][], start: number): number[] {
+  return bfsVisit(input, start).order;
 }
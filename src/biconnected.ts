@@ -0,0 +1,72 @@
+// Articulation Points, Bridges and Biconnected Components (Tarjan low-link)
+// Undirected adjacency lists (each edge listed from both ends). O(n + m),
+// iterative. Parallel edges are respected: a doubled edge is never a bridge.
+import { Graph, adjacencyOf } from './graph';
+
+export interface BiconnectedResult {
+  articulationPoints: number[];
+  bridges: Array<[number, number]>; // [parent, child] in DFS-tree order
+  components: number[][]; // vertex sets of the biconnected components; isolated vertices are omitted
+}
+
+export function biconnectedComponents(input: Graph | number[][]): BiconnectedResult {
+  const adj = adjacencyOf(input);
+  const n = adj.length;
+  const tin = new Array(n).fill(-1);
+  const low = new Array(n).fill(0);
+  const parent = new Array(n).fill(-1);
+  const edgeIdx = new Array(n).fill(0);
+  const skippedParent = new Array(n).fill(false); // the tree edge back up is ignored once
+  const isCut = new Array(n).fill(false);
+  const bridges: Array<[number, number]> = [];
+  const components: number[][] = [];
+  const edgeStack: Array<[number, number]> = [];
+  let timer = 0;
+  for (let root = 0; root < n; root++) {
+    if (tin[root] !== -1) continue;
+    tin[root] = low[root] = timer++;
+    let rootChildren = 0;
+    const stack = [root];
+    while (stack.length) {
+      const u = stack[stack.length - 1];
+      if (edgeIdx[u] < adj[u].length) {
+        const v = adj[u][edgeIdx[u]++];
+        if (v === parent[u] && !skippedParent[u]) {
+          skippedParent[u] = true;
+          continue;
+        }
+        if (tin[v] === -1) {
+          parent[v] = u;
+          tin[v] = low[v] = timer++;
+          edgeStack.push([u, v]);
+          stack.push(v);
+          if (u === root) rootChildren++;
+        } else if (tin[v] < tin[u]) {
+          edgeStack.push([u, v]);
+          low[u] = Math.min(low[u], tin[v]);
+        }
+        continue;
+      }
+      stack.pop();
+      const p = parent[u];
+      if (p === -1) continue;
+      low[p] = Math.min(low[p], low[u]);
+      if (low[u] > tin[p]) bridges.push([p, u]);
+      if (low[u] >= tin[p]) {
+        if (p !== root) isCut[p] = true;
+        // everything pushed since the tree edge p-u forms one component
+        const seen = new Set<number>();
+        while (true) {
+          const [a, b] = edgeStack.pop()!;
+          seen.add(a); seen.add(b);
+          if (a === p && b === u) break;
+        }
+        components.push([...seen].sort((x, y) => x - y));
+      }
+    }
+    if (rootChildren > 1) isCut[root] = true;
+  }
+  const articulationPoints: number[] = [];
+  for (let v = 0; v < n; v++) if (isCut[v]) articulationPoints.push(v);
+  return { articulationPoints, bridges, components };
+}
@@ -0,0 +1,78 @@
+// Bidirectional Search on grids (BFS for 4-way unit moves, A* otherwise)
+// Two searches grow from start and goal and stop once they provably cannot
+// improve on the best meeting point, roughly halving the explored radius.
+// That pays off for blind search (BFS). With the octile heuristic of 8-way A*
+// it does not beat unidirectional A*: each side already heads for the other
+// end, and on large grids it runs about 2x slower than
+// astarGrid({ diagonal: true }) for the same cost.
+import { MinHeap } from './minHeap';
+import { gridHeuristics, freeCell, gridMoves, type GridPath } from './astarGrid';
+
+export interface BidirectionalOptions {
+  diagonal?: boolean; // 8-way moves without corner cutting, as in astarGrid
+  mode?: 'astar' | 'bfs'; // default: bfs for 4-way, astar for 8-way
+}
+
+export function bidirectionalSearch(start: [number, number], goal: [number, number], grid: number[][], options: BidirectionalOptions = {}): GridPath | null {
+  const R = grid.length, C = grid[0].length;
+  const { diagonal = false } = options;
+  const mode = options.mode ?? (diagonal ? 'astar' : 'bfs');
+  if (mode === 'bfs' && diagonal) throw new Error('Bidirectional BFS needs unit-cost moves; use mode "astar" with diagonal');
+  if (!freeCell(grid, start[0], start[1]) || !freeCell(grid, goal[0], goal[1])) return null;
+  const neighbors = (id: number, visit: (v: number, w: number) => void) =>
+    gridMoves(grid, Math.floor(id / C), id % C, diagonal, (nx, ny, step) => visit(nx * C + ny, step));
+  const s = start[0] * C + start[1], t = goal[0] * C + goal[1];
+  // index 0 = forward (from start), 1 = backward (from goal); moves are symmetric
+  const dist = [new Float64Array(R * C).fill(Infinity), new Float64Array(R * C).fill(Infinity)];
+  const parent = [new Int32Array(R * C).fill(-1), new Int32Array(R * C).fill(-1)];
+  dist[0][s] = 0;
+  dist[1][t] = 0;
+  let best = s === t ? 0 : Infinity, meet = s === t ? s : -1;
+  const relax = (side: number, u: number, v: number, w: number) => {
+    const nd = dist[side][u] + w;
+    if (nd >= dist[side][v]) return false;
+    dist[side][v] = nd;
+    parent[side][v] = u;
+    const total = nd + dist[1 - side][v];
+    if (total < best) { best = total; meet = v; }
+    return true;
+  };
+
+  if (mode === 'bfs') {
+    // expand whole levels of the smaller frontier; a meeting found during a
+    // level is optimal once that level is finished
+    let frontiers = [[s], [t]];
+    while (frontiers[0].length && frontiers[1].length && meet === -1) {
+      const side = frontiers[0].length <= frontiers[1].length ? 0 : 1;
+      const next: number[] = [];
+      for (const u of frontiers[side]) neighbors(u, (v, w) => { if (relax(side, u, v, w)) next.push(v); });
+      frontiers[side] = next;
+    }
+  } else {
+    const h = (id: number, side: number) => {
+      const [gx, gy] = side === 0 ? goal : start;
+      const dx = Math.abs(Math.floor(id / C) - gx), dy = Math.abs(id % C - gy);
+      return diagonal ? gridHeuristics.octile(dx, dy) : gridHeuristics.manhattan(dx, dy);
+    };
+    const open = [new MinHeap<number>(), new MinHeap<number>()];
+    open[0].push(h(s, 0), s);
+    open[1].push(h(t, 1), t);
+    const closed = [new Uint8Array(R * C), new Uint8Array(R * C)];
+    while (open[0].size() && open[1].size()) {
+      // any undiscovered path costs at least the smaller f on either side
+      if (Math.max(open[0].data[0].key, open[1].data[0].key) >= best) break;
+      const side = open[0].size() <= open[1].size() ? 0 : 1;
+      const u = open[side].pop()!.val;
+      if (closed[side][u]) continue;
+      closed[side][u] = 1;
+      neighbors(u, (v, w) => { if (relax(side, u, v, w)) open[side].push(dist[side][v] + h(v, side), v); });
+    }
+  }
+  if (meet === -1) return null;
+  const toId = (id: number) => [Math.floor(id / C), id % C] as [number, number];
+  const path: [number, number][] = [];
+  for (let v = meet; v !== -1; v = parent[0][v]) path.push(toId(v));
+  path.reverse();
+  for (let v = parent[1][meet]; v !== -1; v = parent[1][v]) path.push(toId(v));
+  return { path, cost: best };
+}
@@ -1,13 +1,86 @@
 // Binary Search
 // Find index of target in sorted array in O(log n) time.
-export function binarySearch(arr: number[], target: number): number {
+// All array searches take an optional comparator or key extractor (the same
+// `order` the sorts take) and assume `arr` is sorted by it.
+import { comparatorOf, type Order } from './compare';
+
+// Index of any element equal to target, or -1.
+export function binarySearch<T>(arr: ArrayLike<T>, target: T, order?: Order<T>): number {
+  const cmp = comparatorOf(order);
   let lo = 0, hi = arr.length - 1;
   while (lo <= hi) {
     const mid = (lo + hi) >> 1;
-    const v = arr[mid];
-    if (v === target) return mid;
-    if (v < target) lo = mid + 1;
+    const c = cmp(arr[mid], target);
+    if (c === 0) return mid;
+    if (c < 0) lo = mid + 1;
     else hi = mid - 1;
   }
   return -1;
 }
+
+// First index whose element is >= target (the leftmost insertion point).
+export function lowerBound<T>(arr: ArrayLike<T>, target: T, order?: Order<T>): number {
+  const cmp = comparatorOf(order);
+  return firstTrue(0, arr.length, i => cmp(arr[i], target) >= 0);
+}
+
+// First index whose element is > target (the rightmost insertion point).
+export function upperBound<T>(arr: ArrayLike<T>, target: T, order?: Order<T>): number {
+  const cmp = comparatorOf(order);
+  return firstTrue(0, arr.length, i => cmp(arr[i], target) > 0);
+}
+
+// [first, end) of the elements equal to target; empty (first === end) when absent.
+export function equalRange<T>(arr: ArrayLike<T>, target: T, order?: Order<T>): [number, number] {
+  return [lowerBound(arr, target, order), upperBound(arr, target, order)];
+}
+
+// Binary search on the answer: smallest integer x in [lo, hi) with pred(x),
+// or hi if there is none. pred must be monotone (false...false true...true).
+export function firstTrue(lo: number, hi: number, pred: (x: number) => boolean): number {
+  while (lo < hi) {
+    const mid = lo + Math.floor((hi - lo) / 2);
+    if (pred(mid)) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+// Real-valued version: a point within `tolerance` of where a monotone pred
+// turns true on [lo, hi]; pred(result) is true unless it is false everywhere.
+// Stops early once lo and hi are adjacent doubles.
+export function bisect(lo: number, hi: number, pred: (x: number) => boolean, tolerance = 1e-9): number {
+  while (hi - lo > tolerance) {
+    const mid = lo + (hi - lo) / 2;
+    if (mid <= lo || mid >= hi) break;
+    if (pred(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+// Exponential (galloping) search for when the end is unknown or far away:
+// probe start, start+1, start+3, start+7, ... until pred holds, then binary
+// search the last gap. O(log d) probes where d = answer - start. pred must
+// become true eventually.
+export function firstTrueUnbounded(pred: (x: number) => boolean, start = 0): number {
+  let step = 1, lo = start, hi = start;
+  while (!pred(hi)) {
+    lo = hi + 1;
+    hi += step;
+    step *= 2;
+  }
+  return firstTrue(lo, hi, pred);
+}
+
+// lowerBound over a sorted source of unknown length, e.g. a lazily fetched
+// stream: `at(i)` returns the i-th element or undefined past the end. Only
+// O(log answer) elements are read, so searches near the front stay cheap.
+export function exponentialSearch<T>(source: ArrayLike<T> | ((i: number) => T | undefined), target: T, order?: Order<T>): number {
+  const cmp = comparatorOf(order);
+  const at = typeof source === 'function' ? source : (i: number) => (i < source.length ? source[i] : undefined);
+  return firstTrueUnbounded(i => {
+    const x = at(i);
+    return x === undefined || cmp(x, target) >= 0;
+  });
+}
@@ -0,0 +1,31 @@
+// Bipartiteness check (BFS 2-colouring)
+// A graph is bipartite iff it has no odd cycle; when colouring fails the
+// offending edge plus the two BFS-tree paths to its endpoints' common
+// ancestor form one, returned as proof.
+import { Graph, adjacencyOf } from './graph';
+import { bfsVisit } from './bfs';
+
+export type BipartiteResult =
+  | { bipartite: true; color: number[] } // 0 / 1 per vertex
+  | { bipartite: false; oddCycle: number[] }; // vertices in cycle order
+
+export function bipartite(input: Graph | number[][]): BipartiteResult {
+  const adj = adjacencyOf(input);
+  const { parent, level } = bfsVisit(adj);
+  for (let u = 0; u < adj.length; u++) {
+    for (const v of adj[u]) {
+      if ((level[u] & 1) !== (level[v] & 1)) continue;
+      // BFS levels of an edge differ by at most one, so equal parity means equal level
+      const left: number[] = [], right: number[] = [];
+      let a = u, b = v;
+      while (a !== b) {
+        left.push(a);
+        right.push(b);
+        a = parent[a];
+        b = parent[b];
+      }
+      return { bipartite: false, oddCycle: [...left, a, ...right.reverse()] };
+    }
+  }
+  return { bipartite: true, color: level.map(l => l & 1) };
+}
@@ -0,0 +1,39 @@
+// Comparators shared by the sorting and searching routines
+export type Comparator<T> = (a: T, b: T) => number; // < 0 when a sorts first
+
+export interface SortOptions<T> {
+  compare?: Comparator<T>;
+  key?: (x: T) => number | string | bigint; // sort by key(x) ascending; ignored if compare is set
+}
+
+// A comparator on its own or the options object.
+export type Order<T> = Comparator<T> | SortOptions<T>;
+
+export type NumericArray =
+  | Int8Array | Uint8Array | Uint8ClampedArray
+  | Int16Array | Uint16Array
+  | Int32Array | Uint32Array
+  | Float32Array | Float64Array;
+
+// Natural order for numbers, strings and bigints. Matches TypedArray#sort on
+// the edge cases: -0 before +0 and NaN after everything else.
+export function ascending<T>(a: T, b: T): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  if (a === b) {
+    if (a !== 0) return 0;
+    const inverse = 1 / (a as number), other = 1 / (b as number);
+    return inverse === other ? 0 : inverse < 0 ? -1 : 1;
+  }
+  // unordered: at least one side is NaN
+  const aNaN = a !== a, bNaN = b !== b;
+  return aNaN === bNaN ? 0 : aNaN ? 1 : -1;
+}
+
+export function comparatorOf<T>(order?: Order<T>): Comparator<T> {
+  if (typeof order === 'function') return order;
+  if (order?.compare) return order.compare;
+  const key = order?.key;
+  if (key) return (a, b) => ascending(key(a), key(b));
+  return ascending;
+}
@@ -0,0 +1,58 @@
+// Counting Sort (stable, O(n + k) for integer keys spanning k values)
+import type { NumericArray } from './compare';
+
+export interface CountingSortOptions<T> {
+  key?: (x: T) => number; // integer sort key; default the element itself
+  min?: number; // key range, computed from the input when omitted
+  max?: number;
+}
+
+// Past this many distinct key values the count table costs more than it saves.
+const MAX_RANGE = 1 << 24;
+
+export function countingSort(arr: number[], options?: CountingSortOptions<number>): number[];
+export function countingSort<A extends NumericArray>(arr: A, options?: CountingSortOptions<number>): A;
+export function countingSort<T>(arr: T[], options: CountingSortOptions<T>): T[];
+export function countingSort<T>(arr: T[] | NumericArray, options: CountingSortOptions<T> = {}) {
+  return countingSortInPlace(arr.slice() as T[], options);
+}
+
+// Sorts `arr` itself and returns it, using one scratch copy plus the counts.
+export function countingSortInPlace(arr: number[], options?: CountingSortOptions<number>): number[];
+export function countingSortInPlace<A extends NumericArray>(arr: A, options?: CountingSortOptions<number>): A;
+export function countingSortInPlace<T>(arr: T[], options: CountingSortOptions<T>): T[];
+export function countingSortInPlace<T>(arr: T[] | NumericArray, options: CountingSortOptions<T> = {}) {
+  const a = arr as T[];
+  const n = a.length;
+  if (n < 2) return arr;
+  const keyOf = options.key ?? ((x: T) => x as number);
+  const keys = new Float64Array(n);
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const k = (keys[i] = keyOf(a[i]));
+    if (!Number.isInteger(k)) throw new Error(`Counting sort needs integer keys, got ${k}`);
+    if (k < min) min = k;
+    if (k > max) max = k;
+  }
+  if (options.min !== undefined) {
+    if (min < options.min) throw new Error(`Key ${min} is below min ${options.min}`);
+    min = options.min;
+  }
+  if (options.max !== undefined) {
+    if (max > options.max) throw new Error(`Key ${max} is above max ${options.max}`);
+    max = options.max;
+  }
+  const range = max - min + 1;
+  if (range > MAX_RANGE) throw new Error(`Key range ${range} is too large for counting sort; use radixSort`);
+  // count[k - min] becomes the first output slot for key k
+  const count = new Uint32Array(range);
+  for (let i = 0; i < n; i++) count[keys[i] - min]++;
+  for (let d = 0, sum = 0; d < range; d++) {
+    const c = count[d];
+    count[d] = sum;
+    sum += c;
+  }
+  const src = a.slice();
+  for (let i = 0; i < n; i++) a[count[keys[i] - min]++] = src[i];
+  return arr;
+}
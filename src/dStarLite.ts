@@ -0,0 +1,217 @@
+// D* Lite (incremental replanning on changing grids)
+// Searches backwards from the goal and keeps g/rhs values between calls, so
+// after a few cells change only the affected part of the search is repaired.
+// Koenig & Likhachev (2002), optimized version with the km key modifier.
+import { gridHeuristics, freeCell, gridMoves, type GridPath } from './astarGrid';
+
+export interface DStarLiteOptions {
+  diagonal?: boolean; // 8-way moves without corner cutting, as in astarGrid
+}
+
+type Key = [number, number];
+
+// Costs are sums of 1s and √2s, so values that should tie differ by rounding
+// noise; compare with a tolerance or the search stops with stale vertices queued.
+const EPS = 1e-9;
+
+function same(a: number, b: number) {
+  return a === b || Math.abs(a - b) <= EPS;
+}
+
+function keyLess(a: Key, b: Key) {
+  return a[0] < b[0] - EPS || (same(a[0], b[0]) && a[1] < b[1] - EPS);
+}
+
+// Binary heap on two-part keys; stale entries are skipped lazily.
+class KeyHeap {
+  data: { key: Key; v: number }[] = [];
+  size() { return this.data.length; }
+  push(key: Key, v: number) {
+    this.data.push({ key, v });
+    let i = this.data.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (!keyLess(this.data[i].key, this.data[p].key)) break;
+      [this.data[p], this.data[i]] = [this.data[i], this.data[p]];
+      i = p;
+    }
+  }
+  pop() {
+    const res = this.data[0];
+    const last = this.data.pop()!;
+    if (this.data.length > 0) {
+      this.data[0] = last;
+      let i = 0;
+      while (true) {
+        const l = i * 2 + 1, r = l + 1;
+        let m = i;
+        if (l < this.data.length && keyLess(this.data[l].key, this.data[m].key)) m = l;
+        if (r < this.data.length && keyLess(this.data[r].key, this.data[m].key)) m = r;
+        if (m === i) break;
+        [this.data[i], this.data[m]] = [this.data[m], this.data[i]];
+        i = m;
+      }
+    }
+    return res;
+  }
+}
+
+export class DStarLite {
+  grid: number[][];
+  R: number;
+  C: number;
+  start: [number, number];
+  goal: [number, number];
+  expanded = 0; // vertices expanded over the planner's lifetime
+  private diagonal: boolean;
+  private g: Float64Array;
+  private rhs: Float64Array;
+  private queued: Uint8Array;
+  private k1: Float64Array; // key each queued vertex was last pushed with
+  private k2: Float64Array;
+  private open = new KeyHeap();
+  private km = 0;
+  private last: [number, number];
+
+  // The grid is copied; change it through updateCell.
+  constructor(grid: number[][], start: [number, number], goal: [number, number], options: DStarLiteOptions = {}) {
+    this.grid = grid.map(row => row.slice());
+    this.R = grid.length;
+    this.C = grid[0].length;
+    this.start = start;
+    this.goal = goal;
+    this.last = start;
+    this.diagonal = options.diagonal ?? false;
+    const n = this.R * this.C;
+    this.g = new Float64Array(n).fill(Infinity);
+    this.rhs = new Float64Array(n).fill(Infinity);
+    this.queued = new Uint8Array(n);
+    this.k1 = new Float64Array(n);
+    this.k2 = new Float64Array(n);
+    const goalId = this.id(goal[0], goal[1]);
+    this.rhs[goalId] = 0;
+    this.enqueue(goalId);
+  }
+
+  private id(x: number, y: number) { return x * this.C + y; }
+
+  private free(x: number, y: number) {
+    return freeCell(this.grid, x, y);
+  }
+
+  private h(id: number) {
+    const dx = Math.abs(Math.floor(id / this.C) - this.start[0]);
+    const dy = Math.abs(id % this.C - this.start[1]);
+    return this.diagonal ? gridHeuristics.octile(dx, dy) : gridHeuristics.manhattan(dx, dy);
+  }
+
+  private key(id: number): Key {
+    const m = Math.min(this.g[id], this.rhs[id]);
+    return [m + this.h(id) + this.km, m];
+  }
+
+  private enqueue(id: number) {
+    const [a, b] = this.key(id);
+    this.k1[id] = a;
+    this.k2[id] = b;
+    this.queued[id] = 1;
+    this.open.push([a, b], id);
+  }
+
+  // Drop entries that were removed or re-keyed since they were pushed.
+  private top() {
+    while (this.open.size()) {
+      const { key, v } = this.open.data[0];
+      if (this.queued[v] && key[0] === this.k1[v] && key[1] === this.k2[v]) return this.open.data[0];
+      this.open.pop();
+    }
+    return null;
+  }
+
+  // Traversable neighbours of a cell with move costs; the graph is symmetric,
+  // so these are both its successors and its predecessors.
+  private neighbors(id: number): [number, number][] {
+    const x = Math.floor(id / this.C), y = id % this.C;
+    const out: [number, number][] = [];
+    if (!this.free(x, y)) return out;
+    gridMoves(this.grid, x, y, this.diagonal, (nx, ny, step) => out.push([this.id(nx, ny), step]));
+    return out;
+  }
+
+  private updateVertex(id: number) {
+    if (id !== this.id(this.goal[0], this.goal[1])) {
+      let best = Infinity;
+      for (const [v, c] of this.neighbors(id)) best = Math.min(best, c + this.g[v]);
+      this.rhs[id] = best;
+    }
+    this.queued[id] = 0;
+    if (!same(this.g[id], this.rhs[id])) this.enqueue(id);
+  }
+
+  private computeShortestPath() {
+    const s = this.id(this.start[0], this.start[1]);
+    while (true) {
+      const top = this.top();
+      if (!top || (!keyLess(top.key, this.key(s)) && same(this.rhs[s], this.g[s]))) return;
+      this.open.pop();
+      const u = top.v;
+      this.queued[u] = 0;
+      this.expanded++;
+      const fresh = this.key(u);
+      if (keyLess(top.key, fresh)) {
+        this.enqueue(u);
+      } else if (this.g[u] > this.rhs[u] + EPS) {
+        this.g[u] = this.rhs[u];
+        for (const [v] of this.neighbors(u)) this.updateVertex(v);
+      } else {
+        this.g[u] = Infinity;
+        this.updateVertex(u);
+        for (const [v] of this.neighbors(u)) this.updateVertex(v);
+      }
+    }
+  }
+
+  // Block or unblock a cell. Every edge whose cost can change touches the
+  // cell or one of its 8 neighbours (diagonals check their corners).
+  updateCell(x: number, y: number, blocked: boolean) {
+    if (blocked === (this.grid[x][y] === 1)) return;
+    this.grid[x][y] = blocked ? 1 : 0;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < this.R && ny < this.C) this.updateVertex(this.id(nx, ny));
+      }
+    }
+  }
+
+  // Move the robot; later keys are offset by km instead of re-keying the queue.
+  moveStart(x: number, y: number) {
+    const dx = Math.abs(x - this.last[0]), dy = Math.abs(y - this.last[1]);
+    this.km += this.diagonal ? gridHeuristics.octile(dx, dy) : gridHeuristics.manhattan(dx, dy);
+    this.last = [x, y];
+    this.start = [x, y];
+  }
+
+  // Repair the search after any updateCell/moveStart calls and return the
+  // current shortest path from start to goal.
+  replan(): GridPath | null {
+    const [sx, sy] = this.start;
+    if (!this.free(sx, sy) || !this.free(this.goal[0], this.goal[1])) return null;
+    this.computeShortestPath();
+    let cur = this.id(sx, sy);
+    const cost = this.g[cur];
+    if (cost === Infinity) return null;
+    const goalId = this.id(this.goal[0], this.goal[1]);
+    const path: [number, number][] = [[sx, sy]];
+    while (cur !== goalId) {
+      let next = -1, best = Infinity;
+      for (const [v, c] of this.neighbors(cur)) {
+        if (c + this.g[v] < best) { best = c + this.g[v]; next = v; }
+      }
+      if (next === -1 || path.length > this.R * this.C) return null;
+      cur = next;
+      path.push([Math.floor(cur / this.C), cur % this.C]);
+    }
+    return { path, cost };
+  }
+}
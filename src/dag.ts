@@ -0,0 +1,148 @@
+// DAG toolkit: lexicographic / all topological orders, DAG shortest and
+// longest paths, and critical-path scheduling (CPM).
+// Everything here throws on a cycle; use topologicalSort(g, { witness: true })
+// to find out where the cycle is.
+import { Graph, adjacencyOf, weightedAdjacencyOf, type WeightedAdjacency } from './graph';
+import { MinHeap } from './minHeap';
+import { buildPath } from './dijkstra';
+
+// Kahn with a min-heap instead of a queue: always emit the smallest ready
+// vertex, which gives the lexicographically smallest order. O((n + m) log n).
+export function lexicographicTopologicalSort(input: Graph | number[][]): number[] {
+  const adj = adjacencyOf(input);
+  const n = adj.length;
+  const indeg = new Array(n).fill(0);
+  for (let u = 0; u < n; u++) for (const v of adj[u]) indeg[v]++;
+  const ready = new MinHeap<number>();
+  for (let v = 0; v < n; v++) if (indeg[v] === 0) ready.push(v, v);
+  const order: number[] = [];
+  while (ready.size()) {
+    const u = ready.pop()!.val;
+    order.push(u);
+    for (const v of adj[u]) if (--indeg[v] === 0) ready.push(v, v);
+  }
+  if (order.length !== n) throw new Error('Graph has a cycle');
+  return order;
+}
+
+// Every topological order, in lexicographic order, up to `limit` of them.
+// The count grows factorially, so this is meant for small graphs.
+export function allTopologicalSorts(input: Graph | number[][], limit = 10000): number[][] {
+  const adj = adjacencyOf(input);
+  const n = adj.length;
+  lexicographicTopologicalSort(adj); // cycle check
+  const indeg = new Array(n).fill(0);
+  for (let u = 0; u < n; u++) for (const v of adj[u]) indeg[v]++;
+  const used = new Array(n).fill(false);
+  const order: number[] = [];
+  const out: number[][] = [];
+  // next[d] = the next candidate vertex to try at depth d
+  const next = new Array(n + 1).fill(0);
+  let depth = 0;
+  while (depth >= 0 && out.length < limit) {
+    if (depth === n) {
+      out.push(order.slice());
+      depth--;
+      continue;
+    }
+    // undo the vertex placed at this depth before trying the next one
+    if (order.length > depth) {
+      const u = order.pop()!;
+      used[u] = false;
+      for (const v of adj[u]) indeg[v]++;
+    }
+    let u = next[depth];
+    while (u < n && (used[u] || indeg[u] !== 0)) u++;
+    if (u === n) {
+      next[depth] = 0;
+      depth--;
+      continue;
+    }
+    next[depth] = u + 1;
+    used[u] = true;
+    order.push(u);
+    for (const v of adj[u]) indeg[v]--;
+    depth++;
+  }
+  return out;
+}
+
+export interface DagPathsResult {
+  dist: number[]; // Infinity (shortest) or -Infinity (longest) when unreachable
+  prev: number[];
+  order: number[]; // the topological order used for relaxation
+  pathTo(v: number): number[] | null;
+}
+
+// Single-pass relaxation in topological order. O(n + m) and, unlike
+// Dijkstra, fine with negative weights; longest paths just flip the sign.
+function dagPaths(input: Graph | WeightedAdjacency, sources: number | number[], sign: 1 | -1): DagPathsResult {
+  const adj = weightedAdjacencyOf(input);
+  const n = adj.length;
+  const order = lexicographicTopologicalSort(adj.map(row => row.map(([v]) => v)));
+  const dist = new Array(n).fill(Infinity);
+  const prev = new Array(n).fill(-1);
+  for (const s of typeof sources === 'number' ? [sources] : sources) dist[s] = 0;
+  for (const u of order) {
+    if (dist[u] === Infinity) continue;
+    for (const [v, w] of adj[u]) {
+      if (dist[u] + sign * w < dist[v]) {
+        dist[v] = dist[u] + sign * w;
+        prev[v] = u;
+      }
+    }
+  }
+  const signed = sign === 1 ? dist : dist.map(d => (d === 0 ? 0 : -d));
+  return { dist: signed, prev, order, pathTo: (v: number) => buildPath(prev, dist, v) };
+}
+
+export function dagShortestPaths(input: Graph | WeightedAdjacency, sources: number | number[]): DagPathsResult {
+  return dagPaths(input, sources, 1);
+}
+
+export function dagLongestPaths(input: Graph | WeightedAdjacency, sources: number | number[]): DagPathsResult {
+  return dagPaths(input, sources, -1);
+}
+
+export interface Schedule {
+  duration: number; // project length (makespan)
+  earliestStart: number[];
+  earliestFinish: number[];
+  latestStart: number[];
+  latestFinish: number[];
+  slack: number[]; // latestStart - earliestStart; 0 on critical tasks
+  critical: number[]; // one critical path from a start task to an end task
+}
+
+// Critical-path method. Task v takes durations[v]; an edge u -> v means u
+// must finish before v starts. Forward pass gives earliest times, backward
+// pass (from the project end) gives latest times.
+export function criticalPath(durations: number[], dependencies: Graph | number[][]): Schedule {
+  const adj = adjacencyOf(dependencies);
+  const n = durations.length;
+  if (adj.length !== n) throw new Error('Need one duration per task');
+  const order = lexicographicTopologicalSort(adj);
+  const earliestStart = new Array(n).fill(0);
+  for (const u of order) {
+    for (const v of adj[u]) earliestStart[v] = Math.max(earliestStart[v], earliestStart[u] + durations[u]);
+  }
+  const earliestFinish = earliestStart.map((s, v) => s + durations[v]);
+  const duration = n ? Math.max(...earliestFinish) : 0;
+  const latestFinish = new Array(n).fill(duration);
+  for (let i = n - 1; i >= 0; i--) {
+    const u = order[i];
+    for (const v of adj[u]) latestFinish[u] = Math.min(latestFinish[u], latestFinish[v] - durations[v]);
+  }
+  const latestStart = latestFinish.map((f, v) => f - durations[v]);
+  const slack = latestStart.map((s, v) => s - earliestStart[v]);
+
+  // follow zero-slack tasks that start exactly when their predecessor ends
+  const critical: number[] = [];
+  let cur = order.find(v => slack[v] === 0 && earliestStart[v] === 0);
+  while (cur !== undefined) {
+    critical.push(cur);
+    const u: number = cur;
+    cur = adj[u].find(v => slack[v] === 0 && earliestStart[v] === earliestFinish[u]);
+  }
+  return { duration, earliestStart, earliestFinish, latestStart, latestFinish, slack, critical };
+}
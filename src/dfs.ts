@@ -1,13 +1,74 @@
 // Depth-First Search
-export function dfs(adj: number[][], start: number): number[] {
+// Iterative with an explicit stack of (vertex, next edge) frames, so deep
+// graphs cannot overflow the call stack; visit order matches the recursive form.
+import { Graph, adjacencyOf } from './graph';
+
+// Directed classification. On undirected adjacency lists every edge is seen
+// from both ends, so the reverse of each tree edge is reported as 'back'.
+export type DfsEdgeKind = 'tree' | 'back' | 'forward' | 'cross';
+
+export interface DfsVisitor {
+  onDiscover?: (v: number, parent: number) => void; // parent is -1 for roots
+  onEdge?: (u: number, v: number, kind: DfsEdgeKind) => void;
+  onFinish?: (v: number) => void;
+}
+
+export interface DfsResult {
+  order: number[]; // preorder
+  postorder: number[];
+  parent: number[];
+  discovery: number[]; // timestamps share one clock, -1 when unreached
+  finish: number[];
+}
+
+// Without `start` every vertex is covered (a DFS forest).
+export function dfsVisit(input: Graph | number[][], start?: number, visitor: DfsVisitor = {}): DfsResult {
+  const adj = adjacencyOf(input);
   const n = adj.length;
-  const visited = new Array(n).fill(false);
-  const out: number[] = [];
-  function go(u: number) {
-    visited[u] = true;
-    out.push(u);
-    for (const v of adj[u]) if (!visited[v]) go(v);
+  const parent = new Array(n).fill(-1);
+  const discovery = new Array(n).fill(-1);
+  const finish = new Array(n).fill(-1);
+  const order: number[] = [];
+  const postorder: number[] = [];
+  const stack: number[] = [];
+  const edgeIdx: number[] = new Array(n).fill(0);
+  let time = 0;
+  const discover = (v: number, p: number) => {
+    discovery[v] = time++;
+    parent[v] = p;
+    order.push(v);
+    visitor.onDiscover?.(v, p);
+    stack.push(v);
+  };
+  const roots = start === undefined ? adj.keys() : [start];
+  for (const root of roots) {
+    if (discovery[root] !== -1) continue;
+    discover(root, -1);
+    while (stack.length) {
+      const u = stack[stack.length - 1];
+      if (edgeIdx[u] < adj[u].length) {
+        const v = adj[u][edgeIdx[u]++];
+        if (discovery[v] === -1) {
+          visitor.onEdge?.(u, v, 'tree');
+          discover(v, u);
+        } else if (finish[v] === -1) {
+          visitor.onEdge?.(u, v, 'back');
+        } else {
+          visitor.onEdge?.(u, v, discovery[u] < discovery[v] ? 'forward' : 'cross');
+        }
+      } else {
+        stack.pop();
+        finish[u] = time++;
+        postorder.push(u);
+        visitor.onFinish?.(u);
+      }
+    }
   }
-  go(start);
-  return out;
+  return { order, postorder, parent, discovery, finish };
+}
+
+export function dfs(adj: number[][], start: number): number[];
+export function dfs(g: Graph, start: number): number[];
+export function dfs(input: Graph | number[][], start: number): number[] {
+  return dfsVisit(input, start).order;
 }
@@ -1,54 +1,55 @@
 // Dijkstra Shortest Path (priority queue minimal)
-class MinHeap<T> {
-  data: { key: number; val: T }[] = [];
-  size() { return this.data.length; }
-  push(key: number, val: T) {
-    this.data.push({ key, val });
-    let i = this.data.length - 1;
-    while (i > 0) {
-      const p = ((i - 1) >> 1);
-      if (this.data[p].key <= this.data[i].key) break;
-      [this.data[p], this.data[i]] = [this.data[i], this.data[p]];
-      i = p;
-    }
-  }
-  pop(): { key: number; val: T } | null {
-    if (this.data.length === 0) return null;
-    const res = this.data[0];
-    const last = this.data.pop()!;
-    if (this.data.length > 0) {
-      this.data[0] = last;
-      let i = 0;
-      while (true) {
-        const l = i * 2 + 1, r = i * 2 + 2;
-        let smallest = i;
-        if (l < this.data.length && this.data[l].key < this.data[smallest].key) smallest = l;
-        if (r < this.data.length && this.data[r].key < this.data[smallest].key) smallest = r;
-        if (smallest === i) break;
-        [this.data[i], this.data[smallest]] = [this.data[smallest], this.data[i]];
-        i = smallest;
-      }
-    }
-    return res;
-  }
+import { Graph, weightedAdjacencyOf, type WeightedAdjacency } from './graph';
+import { MinHeap } from './minHeap';
+
+export interface DijkstraOptions {
+  target?: number; // stop once this node is settled; farther entries of dist stay tentative
 }
-export function dijkstra(adj: Array<Array<[number, number]>>, src: number): number[] {
+
+export interface DijkstraResult {
+  dist: number[];
+  prev: number[]; // predecessor on a shortest path, -1 for sources/unreached
+  pathTo(v: number): number[] | null;
+}
+
+// Walk a predecessor array back from v; null when v was never reached.
+export function buildPath(prev: number[], dist: number[], v: number): number[] | null {
+  if (dist[v] === Infinity) return null;
+  const path: number[] = [];
+  for (let u = v; u !== -1; u = prev[u]) path.push(u);
+  return path.reverse();
+}
+
+// Full Dijkstra result. `sources` may list several nodes that all start at 0.
+export function dijkstraPaths(input: Graph | WeightedAdjacency, sources: number | number[], options: DijkstraOptions = {}): DijkstraResult {
+  const adj = weightedAdjacencyOf(input);
   const n = adj.length;
   const dist = new Array(n).fill(Infinity);
-  dist[src] = 0;
+  const prev = new Array(n).fill(-1);
   const pq = new MinHeap<number>();
-  pq.push(0, src);
+  for (const s of typeof sources === 'number' ? [sources] : sources) {
+    dist[s] = 0;
+    pq.push(0, s);
+  }
   while (pq.size()) {
     const cur = pq.pop()!;
     const u = cur.val;
     const d = cur.key;
     if (d > dist[u]) continue;
+    if (u === options.target) break;
     for (const [v, w] of adj[u]) {
       if (dist[v] > dist[u] + w) {
         dist[v] = dist[u] + w;
+        prev[v] = u;
         pq.push(dist[v], v);
       }
     }
   }
-  return dist;
+  return { dist, prev, pathTo: (v: number) => buildPath(prev, dist, v) };
+}
+
+export function dijkstra(adj: WeightedAdjacency, src: number): number[];
+export function dijkstra(g: Graph, src: number): number[];
+export function dijkstra(input: Graph | WeightedAdjacency, src: number): number[] {
+  return dijkstraPaths(input, src).dist;
 }
@@ -0,0 +1,58 @@
+// Disjoint Set Union (union by rank + path compression)
+// Near-constant amortized find/union: O(α(n)).
+export class DisjointSet {
+  parent: number[];
+  rank: number[];
+  sizes: number[];
+  count: number; // number of components
+
+  constructor(n: number) {
+    this.parent = Array.from({ length: n }, (_, i) => i);
+    this.rank = new Array(n).fill(0);
+    this.sizes = new Array(n).fill(1);
+    this.count = n;
+  }
+
+  find(a: number): number {
+    let root = a;
+    while (this.parent[root] !== root) root = this.parent[root];
+    // iterative compression keeps long chains off the call stack
+    while (this.parent[a] !== root) {
+      const next = this.parent[a];
+      this.parent[a] = root;
+      a = next;
+    }
+    return root;
+  }
+
+  // Returns false when a and b were already in the same component.
+  union(a: number, b: number): boolean {
+    a = this.find(a); b = this.find(b);
+    if (a === b) return false;
+    if (this.rank[a] < this.rank[b]) [a, b] = [b, a];
+    this.parent[b] = a;
+    this.sizes[a] += this.sizes[b];
+    if (this.rank[a] === this.rank[b]) this.rank[a]++;
+    this.count--;
+    return true;
+  }
+
+  connected(a: number, b: number): boolean {
+    return this.find(a) === this.find(b);
+  }
+
+  // Size of the component containing a.
+  size(a: number): number {
+    return this.sizes[this.find(a)];
+  }
+
+  // Component index (0..count-1) for every element, numbered by first appearance.
+  components(): number[] {
+    const ids = new Map<number, number>();
+    return this.parent.map((_, v) => {
+      const r = this.find(v);
+      if (!ids.has(r)) ids.set(r, ids.size);
+      return ids.get(r)!;
+    });
+  }
+}
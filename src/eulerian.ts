@@ -0,0 +1,96 @@
+// Eulerian Path / Circuit (Hierholzer)
+// Uses every edge exactly once; multigraphs and self-loops are fine. O(n + m)
+// with typed-array adjacency and an explicit stack, so 10^6 edges are no problem.
+import { Graph } from './graph';
+
+export type EulerianFailure =
+  | { ok: false; reason: 'odd-degree'; vertices: number[] } // undirected: more than two odd vertices
+  | { ok: false; reason: 'unbalanced'; vertices: number[] } // directed: in/out degrees do not allow a trail
+  | { ok: false; reason: 'disconnected' }; // edges span more than one component
+
+export type EulerianResult =
+  | { ok: true; circuit: boolean; path: number[]; edges: number[] } // edges = input edge indices in trail order
+  | EulerianFailure;
+
+export function eulerianPath(n: number, edges: Array<[number, number]>, directed: boolean): EulerianResult;
+export function eulerianPath(g: Graph): EulerianResult;
+export function eulerianPath(nOrGraph: number | Graph, edgeInput: Array<[number, number]> = [], directedInput = false): EulerianResult {
+  const isGraph = nOrGraph instanceof Graph;
+  const n = isGraph ? nOrGraph.n : nOrGraph;
+  const edges: ArrayLike<[number, number] | [number, number, number]> = isGraph ? nOrGraph.edges() : edgeInput;
+  const directed = isGraph ? nOrGraph.directed : directedInput;
+  const m = edges.length;
+  if (m === 0) return { ok: true, circuit: true, path: n ? [0] : [], edges: [] };
+
+  // degree bookkeeping; for undirected graphs outDeg holds the full degree
+  const outDeg = new Int32Array(n), inDeg = new Int32Array(n);
+  for (let i = 0; i < m; i++) {
+    const [u, v] = edges[i];
+    outDeg[u]++;
+    if (directed) inDeg[v]++;
+    else outDeg[v]++;
+  }
+  let start = edges[0][0];
+  let circuit = true;
+  if (directed) {
+    const bad: number[] = [];
+    let starts = 0, ends = 0;
+    for (let v = 0; v < n; v++) {
+      const d = outDeg[v] - inDeg[v];
+      if (d === 0) continue;
+      if (d === 1 && starts++ === 0) start = v;
+      else if (d === -1 && ends++ === 0) continue;
+      else bad.push(v);
+    }
+    if (bad.length || starts !== ends) {
+      const offenders: number[] = [];
+      for (let v = 0; v < n; v++) if (outDeg[v] !== inDeg[v]) offenders.push(v);
+      return { ok: false, reason: 'unbalanced', vertices: offenders };
+    }
+    circuit = starts === 0;
+  } else {
+    const odd: number[] = [];
+    for (let v = 0; v < n; v++) if (outDeg[v] & 1) odd.push(v);
+    if (odd.length > 2) return { ok: false, reason: 'odd-degree', vertices: odd };
+    if (odd.length) {
+      start = odd[0];
+      circuit = false;
+    }
+  }
+
+  // CSR adjacency of edge ids: incident edges of v are ids[offset[v] .. offset[v + 1])
+  const offset = new Int32Array(n + 1);
+  for (let v = 0; v < n; v++) offset[v + 1] = offset[v] + outDeg[v];
+  const ids = new Int32Array(offset[n]);
+  const fill = offset.slice(0, n);
+  for (let i = 0; i < m; i++) {
+    const [u, v] = edges[i];
+    ids[fill[u]++] = i;
+    if (!directed) ids[fill[v]++] = i;
+  }
+  const used = new Uint8Array(m);
+  const ptr = offset.slice(0, n);
+  const vertexStack = new Int32Array(m + 1), edgeStack = new Int32Array(m + 1);
+  const path: number[] = [], trail: number[] = [];
+  let top = 0;
+  vertexStack[0] = start;
+  edgeStack[0] = -1;
+  while (top >= 0) {
+    const v = vertexStack[top];
+    while (ptr[v] < offset[v + 1] && used[ids[ptr[v]]]) ptr[v]++;
+    if (ptr[v] < offset[v + 1]) {
+      const e = ids[ptr[v]++];
+      used[e] = 1;
+      const [a, b] = edges[e];
+      top++;
+      vertexStack[top] = a === v ? b : a;
+      edgeStack[top] = e;
+    } else {
+      path.push(v);
+      if (edgeStack[top] !== -1) trail.push(edgeStack[top]);
+      top--;
+    }
+  }
+  if (trail.length !== m) return { ok: false, reason: 'disconnected' };
+  return { ok: true, circuit, path: path.reverse(), edges: trail.reverse() };
+}
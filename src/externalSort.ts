@@ -0,0 +1,303 @@
+// External Merge Sort (k-way, for numeric data larger than memory)
+// Phase 1 fills a run buffer of `memoryBytes`, sorts it in place with the
+// built-in TypedArray#sort (same order as `ascending`: -0 before 0, NaN last)
+// and writes it to a temp file. Phase 2 merges up to `fanIn` runs at a time
+// through a min-heap, in several passes if there are more runs than that.
+// Records are numbers, either one per line ('lines') or raw little-endian
+// Float64 values ('float64'). Temp files are removed even if sorting fails.
+// All record buffers come out of `memoryBytes`; converting output to text or
+// little-endian only allocates per BATCH_RECORDS records on top of that.
+import { writeFile, open, mkdtemp, rm, type FileHandle } from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MinHeap } from './minHeap';
+
+export type RecordFormat = 'lines' | 'float64';
+
+export interface ExternalSortOptions {
+  format?: RecordFormat; // for file input and the output file; default 'lines'
+  memoryBytes?: number; // run buffer size, split between the merge inputs and output; default 64 MiB
+  fanIn?: number; // runs merged at once; default 64
+  tempDir?: string; // where the run directory is created; default os.tmpdir()
+}
+
+export interface ExternalSortStats {
+  records: number;
+  runs: number; // initial sorted runs written to disk (0 if everything fit in memory)
+  mergePasses: number;
+}
+
+const DEFAULT_MEMORY = 64 * 1024 * 1024;
+const BATCH_RECORDS = 8192;
+
+// Sort `input` (a file path, or an async/sync iterable of numbers) into the
+// file at `output`.
+export async function externalSort(
+  input: string | AsyncIterable<number> | Iterable<number>,
+  output: string,
+  options: ExternalSortOptions = {}
+): Promise<ExternalSortStats> {
+  const format = options.format ?? 'lines';
+  const memory = options.memoryBytes ?? DEFAULT_MEMORY;
+  const fanIn = Math.max(2, options.fanIn ?? 64);
+  const dir = await mkdtemp(join(options.tempDir ?? tmpdir(), 'extsort-'));
+  const stats: ExternalSortStats = { records: 0, runs: 0, mergePasses: 0 };
+  let nextRun = 0;
+  const runPath = () => join(dir, `run-${nextRun++}.f64`);
+  try {
+    const buffer = new Float64Array(Math.max(1, Math.floor(memory / 8)));
+    let fill = 0;
+    let runs: string[] = [];
+    // runs hold native-endian Float64s: only this module ever reads them
+    const spill = async () => {
+      const sorted = buffer.subarray(0, fill).sort();
+      const path = runPath();
+      await writeFile(path, new Uint8Array(sorted.buffer, sorted.byteOffset, fill * 8));
+      runs.push(path);
+      fill = 0;
+    };
+    for await (const batch of recordBatches(input, format)) {
+      for (let i = 0; i < batch.length; i++) {
+        buffer[fill++] = batch[i];
+        if (fill === buffer.length) await spill();
+      }
+      stats.records += batch.length;
+    }
+
+    if (runs.length === 0) {
+      // everything fit in one buffer: no temp files needed
+      const out = await RecordWriter.create(output, format);
+      try {
+        await out.write(buffer.subarray(0, fill).sort());
+      } finally {
+        await out.close();
+      }
+      return stats;
+    }
+    if (fill) await spill();
+    stats.runs = runs.length;
+    while (runs.length > fanIn) {
+      const merged: string[] = [];
+      for (let i = 0; i < runs.length; i += fanIn) {
+        const group = runs.slice(i, i + fanIn);
+        const path = runPath();
+        await mergeRuns(group, path, 'native', buffer);
+        await Promise.all(group.map(p => rm(p)));
+        merged.push(path);
+      }
+      runs = merged;
+      stats.mergePasses++;
+    }
+    await mergeRuns(runs, output, format, buffer);
+    stats.mergePasses++;
+    return stats;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// k-way merge: the heap holds the current head of every run, keyed by value.
+// Each run reads through its own slice of `memory`; the last slice buffers
+// the output. The heap cannot order -0/0 or NaN, so zeros are counted by sign
+// while they pop (they pop together) and NaNs, which end every run, are
+// counted and written last.
+async function mergeRuns(paths: string[], output: string, format: RecordFormat | 'native', memory: Float64Array) {
+  const size = Math.floor(memory.length / (paths.length + 1));
+  const slice = (i: number) => (size ? memory.subarray(i * size, (i + 1) * size) : new Float64Array(1));
+  const readers: RunReader[] = [];
+  let out: RecordWriter | undefined;
+  try {
+    for (let i = 0; i < paths.length; i++) readers.push(await RunReader.open(paths[i], slice(i)));
+    const writer = out = await RecordWriter.create(output, format, slice(paths.length));
+    const emit = async (x: number, count = 1) => {
+      for (let i = 0; i < count; i++) if (writer.push(x)) await writer.flush();
+    };
+    const heap = new MinHeap<number>();
+    let nans = 0, negativeZeros = 0, zeros = 0;
+    // a run that reaches NaN has only NaNs left
+    const countNaNs = async (reader: RunReader) => {
+      do nans++; while (reader.advance() || (await reader.fill()));
+    };
+    const flushZeros = async () => {
+      await emit(-0, negativeZeros);
+      await emit(0, zeros);
+      negativeZeros = zeros = 0;
+    };
+    for (let r = 0; r < readers.length; r++) {
+      if (!(await readers[r].fill())) continue;
+      if (Number.isNaN(readers[r].current)) await countNaNs(readers[r]);
+      else heap.push(readers[r].current, r);
+    }
+    while (heap.size()) {
+      const { key, val: r } = heap.pop()!;
+      if (key === 0) {
+        if (Object.is(key, -0)) negativeZeros++;
+        else zeros++;
+      } else {
+        if (negativeZeros || zeros) await flushZeros();
+        if (writer.push(key)) await writer.flush();
+      }
+      const reader = readers[r];
+      if (!reader.advance() && !(await reader.fill())) continue;
+      if (Number.isNaN(reader.current)) await countNaNs(reader);
+      else heap.push(reader.current, r);
+    }
+    await flushZeros();
+    await emit(NaN, nans);
+    await writer.flush();
+  } finally {
+    await Promise.all(readers.map(r => r.close()));
+    await out?.close();
+  }
+}
+
+// Buffered sequential reader over a run file.
+class RunReader {
+  private pos = 0;
+  private len = 0;
+  private rest = 0; // bytes of a partially read record after the last whole one
+  private offset = 0;
+
+  private constructor(private handle: FileHandle, private buf: Float64Array) {}
+
+  static async open(path: string, buf: Float64Array) {
+    return new RunReader(await open(path, 'r'), buf);
+  }
+
+  get current() {
+    return this.buf[this.pos];
+  }
+
+  // Step within the buffer; false means call fill() next.
+  advance() {
+    return ++this.pos < this.len;
+  }
+
+  // Load the next block; false once the run is exhausted. A read that ends
+  // inside a record keeps its bytes at the front for the next one.
+  async fill() {
+    const bytes = new Uint8Array(this.buf.buffer, this.buf.byteOffset, this.buf.byteLength);
+    bytes.copyWithin(0, this.len * 8, this.len * 8 + this.rest);
+    this.len = this.pos = 0;
+    while (this.len === 0) {
+      const { bytesRead } = await this.handle.read(bytes, this.rest, bytes.length - this.rest, this.offset);
+      if (bytesRead === 0) {
+        if (this.rest) throw new Error(`Run file ends inside a record (${this.rest} trailing bytes)`);
+        return false;
+      }
+      this.offset += bytesRead;
+      const total = this.rest + bytesRead;
+      this.len = Math.floor(total / 8);
+      this.rest = total - this.len * 8;
+    }
+    return true;
+  }
+
+  close() {
+    return this.handle.close();
+  }
+}
+
+// Writer buffered through a caller-owned slice of memory; push() returns true
+// when the buffer is full and should be flushed. close() does not flush, so
+// it is safe in a finally after a failed merge.
+class RecordWriter {
+  private fill = 0;
+
+  private constructor(private handle: FileHandle, private format: RecordFormat | 'native', private buf: Float64Array) {}
+
+  static async create(path: string, format: RecordFormat | 'native', buf: Float64Array = new Float64Array(0)) {
+    return new RecordWriter(await open(path, 'w'), format, buf);
+  }
+
+  push(x: number) {
+    this.buf[this.fill++] = x;
+    return this.fill === this.buf.length;
+  }
+
+  async flush() {
+    const values = this.buf.subarray(0, this.fill);
+    this.fill = 0;
+    await this.write(values);
+  }
+
+  // Write records straight through, bypassing the buffer.
+  async write(values: Float64Array) {
+    if (this.format === 'native') {
+      if (values.length) await this.handle.write(new Uint8Array(values.buffer, values.byteOffset, values.byteLength));
+      return;
+    }
+    for (let lo = 0; lo < values.length; lo += BATCH_RECORDS) {
+      const batch = values.subarray(lo, lo + BATCH_RECORDS);
+      if (this.format === 'lines') {
+        await this.handle.write(batch.join('\n') + '\n');
+      } else {
+        const bytes = new DataView(new ArrayBuffer(batch.length * 8));
+        for (let i = 0; i < batch.length; i++) bytes.setFloat64(i * 8, batch[i], true);
+        await this.handle.write(new Uint8Array(bytes.buffer));
+      }
+    }
+  }
+
+  close() {
+    return this.handle.close();
+  }
+}
+
+// Input as Float64Array batches, so a file is not awaited record by record.
+async function* recordBatches(input: string | AsyncIterable<number> | Iterable<number>, format: RecordFormat): AsyncGenerator<Float64Array> {
+  if (typeof input !== 'string') {
+    const batch = new Float64Array(BATCH_RECORDS);
+    let fill = 0;
+    for await (const x of input) {
+      batch[fill++] = x;
+      if (fill === batch.length) {
+        yield batch;
+        fill = 0;
+      }
+    }
+    if (fill) yield batch.subarray(0, fill);
+    return;
+  }
+  if (format === 'float64') {
+    let carry = new Uint8Array(0);
+    for await (const chunk of createReadStream(input) as AsyncIterable<Uint8Array>) {
+      const bytes = carry.length ? concat(carry, chunk) : chunk;
+      const count = Math.floor(bytes.length / 8);
+      const view = new DataView(bytes.buffer, bytes.byteOffset, count * 8);
+      const batch = new Float64Array(count);
+      for (let i = 0; i < count; i++) batch[i] = view.getFloat64(i * 8, true);
+      carry = bytes.slice(count * 8);
+      yield batch;
+    }
+    if (carry.length) throw new Error(`Binary input is not a whole number of Float64 records (${carry.length} trailing bytes)`);
+    return;
+  }
+  let rest = '', line = 0;
+  const parse = (lines: string[]) => {
+    const batch: number[] = [];
+    for (const text of lines) {
+      line++;
+      const s = text.trim();
+      if (!s) continue;
+      const x = Number(s);
+      if (Number.isNaN(x) && s !== 'NaN') throw new Error(`Line ${line} is not a number: "${s}"`);
+      batch.push(x);
+    }
+    return Float64Array.from(batch);
+  };
+  for await (const chunk of createReadStream(input, { encoding: 'utf8' }) as AsyncIterable<string>) {
+    const lines = (rest + chunk).split('\n');
+    rest = lines.pop()!;
+    yield parse(lines);
+  }
+  yield parse([rest]);
+}
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
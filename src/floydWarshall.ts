@@ -0,0 +1,52 @@
+// All-Pairs Shortest Paths - Floyd-Warshall (O(n^3), suits dense graphs)
+import { Graph, weightedAdjacencyOf, type WeightedAdjacency } from './graph';
+
+export interface FloydWarshallResult {
+  dist: number[][];
+  next: number[][]; // next[u][v] = first hop on a shortest u -> v path, -1 if none
+  hasNegativeCycle: boolean;
+  path(u: number, v: number): number[] | null;
+}
+
+export function floydWarshall(input: Graph | WeightedAdjacency): FloydWarshallResult {
+  const adj = weightedAdjacencyOf(input);
+  const n = adj.length;
+  const dist = Array.from({ length: n }, () => new Array<number>(n).fill(Infinity));
+  const next = Array.from({ length: n }, () => new Array<number>(n).fill(-1));
+  for (let u = 0; u < n; u++) {
+    dist[u][u] = 0;
+    next[u][u] = u;
+    for (const [v, w] of adj[u]) {
+      if (w < dist[u][v]) {
+        dist[u][v] = w;
+        next[u][v] = v;
+      }
+    }
+  }
+  for (let k = 0; k < n; k++) {
+    const dk = dist[k];
+    for (let i = 0; i < n; i++) {
+      const di = dist[i], dik = di[k];
+      if (dik === Infinity) continue;
+      for (let j = 0; j < n; j++) {
+        if (dik + dk[j] < di[j]) {
+          di[j] = dik + dk[j];
+          next[i][j] = next[i][k];
+        }
+      }
+    }
+  }
+  let hasNegativeCycle = false;
+  for (let i = 0; i < n; i++) if (dist[i][i] < 0) hasNegativeCycle = true;
+  const path = (u: number, v: number) => {
+    if (next[u][v] === -1) return null;
+    const out = [u];
+    while (u !== v) {
+      u = next[u][v];
+      out.push(u);
+      if (out.length > n) return null; // routed through a negative cycle
+    }
+    return out;
+  };
+  return { dist, next, hasNegativeCycle, path };
+}
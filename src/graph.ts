@@ -0,0 +1,126 @@
+// Graph (shared representation for the graph algorithms)
+// Vertices are 0..n-1; string labels map onto those ids. Edges are stored
+// once in `edgeList` and mirrored into a weighted adjacency list.
+export type Edge = [number, number, number]; // [from, to, weight]
+export type WeightedAdjacency = Array<Array<[number, number]>>; // adj[u] = [[v, w], ...]
+
+export interface GraphOptions {
+  directed?: boolean;
+  weighted?: boolean;
+}
+
+export class Graph {
+  n: number;
+  directed: boolean;
+  weighted: boolean;
+  adj: WeightedAdjacency;
+  edgeList: Edge[] = [];
+  labels: string[] | null = null;
+  private ids: Map<string, number> | null = null;
+  private plain: number[][] | null = null;
+
+  constructor(n: number, options: GraphOptions = {}) {
+    this.n = n;
+    this.directed = options.directed ?? false;
+    this.weighted = options.weighted ?? false;
+    this.adj = Array.from({ length: n }, () => []);
+  }
+
+  // Build from [u, v] or [u, v, w] tuples; missing weights default to 1.
+  static fromEdges(n: number, edges: Array<[number, number] | [number, number, number]>, options: GraphOptions = {}) {
+    const weighted = options.weighted ?? edges.some(e => e.length > 2);
+    const g = new Graph(n, { ...options, weighted });
+    for (const e of edges) g.addEdge(e[0], e[1], e[2] ?? 1);
+    return g;
+  }
+
+  // Adjacency lists are taken as given, so they default to directed:
+  // an undirected list already holds both directions of every edge.
+  static fromAdjacency(adj: number[][] | WeightedAdjacency, options: GraphOptions = {}) {
+    const weighted = options.weighted ?? adj.some(row => row.some(x => Array.isArray(x)));
+    const directed = options.directed ?? true;
+    const g = new Graph(adj.length, { directed, weighted });
+    for (let u = 0; u < adj.length; u++) {
+      for (const x of adj[u]) {
+        const [v, w] = Array.isArray(x) ? x : [x, 1];
+        // undirected input lists each edge twice; keep one copy
+        if (!directed && v < u) continue;
+        g.addEdge(u, v, w);
+      }
+    }
+    return g;
+  }
+
+  // Build from string-labelled edges; vertex ids follow first appearance.
+  // `vertices` are numbered first, which also keeps isolated vertices.
+  static fromLabeled(edges: Array<[string, string] | [string, string, number]>, options: GraphOptions = {}, vertices: string[] = []) {
+    const labels: string[] = [];
+    const ids = new Map<string, number>();
+    const idOf = (s: string) => {
+      let id = ids.get(s);
+      if (id === undefined) {
+        id = labels.length;
+        ids.set(s, id);
+        labels.push(s);
+      }
+      return id;
+    };
+    for (const v of vertices) idOf(v);
+    const numeric = edges.map(e => [idOf(e[0]), idOf(e[1]), e[2] ?? 1] as Edge);
+    const weighted = options.weighted ?? edges.some(e => e.length > 2);
+    const g = Graph.fromEdges(labels.length, numeric, { ...options, weighted });
+    g.labels = labels;
+    g.ids = ids;
+    return g;
+  }
+
+  addEdge(u: number, v: number, w = 1) {
+    this.edgeList.push([u, v, w]);
+    this.adj[u].push([v, w]);
+    if (!this.directed && u !== v) this.adj[v].push([u, w]);
+    this.plain = null;
+  }
+
+  // Name the vertices 0..n-1; id() and label() then go through these names.
+  setLabels(labels: string[]) {
+    this.labels = labels;
+    this.ids = new Map(labels.map((s, v) => [s, v]));
+  }
+
+  neighbors(u: number): number[] {
+    return this.toAdjacency()[u];
+  }
+
+  id(label: string): number {
+    const id = this.ids?.get(label);
+    if (id === undefined) throw new Error(`Unknown vertex label: ${label}`);
+    return id;
+  }
+
+  label(v: number): string {
+    return this.labels ? this.labels[v] : String(v);
+  }
+
+  // Unweighted adjacency list (cached until the next addEdge).
+  toAdjacency(): number[][] {
+    if (!this.plain) this.plain = this.adj.map(row => row.map(([v]) => v));
+    return this.plain;
+  }
+
+  toWeightedAdjacency(): WeightedAdjacency {
+    return this.adj;
+  }
+
+  edges(): Edge[] {
+    return this.edgeList;
+  }
+}
+
+// Helpers used by algorithms that accept either a Graph or their legacy input.
+export function adjacencyOf(g: Graph | number[][]): number[][] {
+  return g instanceof Graph ? g.toAdjacency() : g;
+}
+
+export function weightedAdjacencyOf(g: Graph | WeightedAdjacency): WeightedAdjacency {
+  return g instanceof Graph ? g.toWeightedAdjacency() : g;
+}
@@ -0,0 +1,190 @@
+// Graph file formats: DIMACS, edge lists, JSON adjacency, GraphML-lite, DOT export
+// Parsers take the file contents as a string and return a Graph; reading the
+// file is left to the caller so this works the same on Node, Bun and Deno.
+import { Graph, type GraphOptions } from './graph';
+import { gridMoves } from './astarGrid';
+
+export interface DimacsGraph {
+  kind: 'sp' | 'max';
+  graph: Graph;
+  source?: number; // max-flow files only
+  sink?: number;
+}
+
+// DIMACS shortest-path ("p sp n m", "a u v w") and max-flow ("p max n m",
+// "n id s|t", "a u v cap") files. Vertex ids become 0-based; the file's own
+// 1-based ids are kept as labels, so g.id('1') is vertex 0.
+export function parseDimacs(text: string): DimacsGraph {
+  let graph: Graph | null = null;
+  let kind: 'sp' | 'max' = 'sp';
+  let source: number | undefined, sink: number | undefined;
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const parts = lines[i].trim().split(/\s+/);
+    switch (parts[0]) {
+      case 'p': {
+        if (parts[1] !== 'sp' && parts[1] !== 'max') throw new Error(`Line ${i + 1}: unsupported DIMACS problem "${parts[1]}"`);
+        kind = parts[1];
+        const n = numberAt(parts, 2, i + 1);
+        if (!Number.isInteger(n) || n < 0) throw new Error(`Line ${i + 1}: bad vertex count "${parts[2]}"`);
+        graph = new Graph(n, { directed: true, weighted: true });
+        graph.setLabels(Array.from({ length: n }, (_, v) => String(v + 1)));
+        break;
+      }
+      case 'n':
+        if (!graph) throw new Error(`Line ${i + 1}: node descriptor before problem line`);
+        if (parts[2] === 's') source = vertexAt(parts, 1, i + 1, 1, graph.n);
+        else if (parts[2] === 't') sink = vertexAt(parts, 1, i + 1, 1, graph.n);
+        break;
+      case 'a':
+        if (!graph) throw new Error(`Line ${i + 1}: arc before problem line`);
+        graph.addEdge(vertexAt(parts, 1, i + 1, 1, graph.n), vertexAt(parts, 2, i + 1, 1, graph.n), numberAt(parts, 3, i + 1));
+        break;
+      default: // 'c' comments and blank lines
+        break;
+    }
+  }
+  if (!graph) throw new Error('Missing DIMACS problem line');
+  return { kind, graph, source, sink };
+}
+
+// One edge per line: "u v" or "u v w". Lines starting with # or % are
+// comments. Numeric ids are used as-is, or shifted down with oneBased, which
+// keeps the file's ids as labels (as parseDimacs does). Any non-numeric token
+// switches to string-labelled vertices.
+export function parseEdgeList(text: string, options: GraphOptions & { oneBased?: boolean } = {}): Graph {
+  const rows: string[][] = [];
+  const lineOf: number[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#') || line.startsWith('%')) continue;
+    const row = line.split(/[\s,]+/);
+    if (row.length < 2) throw new Error(`Line ${i + 1}: expected "u v" or "u v w", got "${line}"`);
+    rows.push(row);
+    lineOf.push(i + 1);
+  }
+  const weight = (r: string[], k: number) => (r.length > 2 ? [numberAt(r, 2, lineOf[k])] : []);
+  const numeric = rows.every(r => /^-?\d+$/.test(r[0]) && /^-?\d+$/.test(r[1]));
+  if (!numeric) {
+    return Graph.fromLabeled(rows.map((r, k) => [r[0], r[1], ...weight(r, k)] as [string, string, number]), options);
+  }
+  const shift = options.oneBased ? 1 : 0;
+  const edges = rows.map((r, k) => [vertexAt(r, 0, lineOf[k], shift), vertexAt(r, 1, lineOf[k], shift), ...weight(r, k)] as [number, number, number]);
+  const n = edges.reduce((mx, [u, v]) => Math.max(mx, u + 1, v + 1), 0);
+  const g = Graph.fromEdges(n, edges, options);
+  if (shift) g.setLabels(Array.from({ length: n }, (_, v) => String(v + shift)));
+  return g;
+}
+
+// Field k of a parsed line as a finite number.
+function numberAt(parts: string[], k: number, line: number): number {
+  const x = Number(parts[k] ?? NaN);
+  if (parts[k] === '' || !Number.isFinite(x)) throw new Error(`Line ${line}: expected a number, got "${parts[k] ?? ''}"`);
+  return x;
+}
+
+// Field k as a 0-based vertex id: the file's id minus `shift`, in [0, n).
+function vertexAt(parts: string[], k: number, line: number, shift: number, n = Infinity): number {
+  const id = numberAt(parts, k, line) - shift;
+  if (!Number.isInteger(id) || id < 0 || id >= n) {
+    const range = n === Infinity ? `${shift} or more` : `${shift}..${n - 1 + shift}`;
+    throw new Error(`Line ${line}: vertex id ${parts[k]} is out of range (expected ${range})`);
+  }
+  return id;
+}
+
+// JSON adjacency: number[][], [[v, w], ...] rows, or an object keyed by
+// label whose values are neighbour-label arrays or { neighbour: weight } maps.
+export function parseJsonAdjacency(text: string, options: GraphOptions = {}): Graph {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return Graph.fromAdjacency(data, options);
+  const edges: Array<[string, string, number]> = [];
+  let weighted = false;
+  for (const [u, nbrs] of Object.entries(data as Record<string, unknown>)) {
+    if (Array.isArray(nbrs)) {
+      for (const v of nbrs) edges.push([u, String(v), 1]);
+    } else if (nbrs && typeof nbrs === 'object') {
+      weighted = true;
+      for (const [v, w] of Object.entries(nbrs as Record<string, number>)) edges.push([u, v, Number(w)]);
+    }
+  }
+  // keys come first so vertices without edges are kept
+  return Graph.fromLabeled(edges, { directed: options.directed ?? true, weighted: options.weighted ?? weighted }, Object.keys(data));
+}
+
+// GraphML subset: <graph edgedefault>, <node id>, <edge source target> and an
+// optional <data key="weight"> (or "w") inside edges. No nested graphs/ports.
+export function parseGraphML(text: string): Graph {
+  const directed = !/edgedefault\s*=\s*["']undirected["']/.test(text);
+  const labels: string[] = [];
+  for (const m of text.matchAll(/<node\b[^>]*\bid\s*=\s*["']([^"']+)["']/g)) labels.push(m[1]);
+  const edges: Array<[string, string, number]> = [];
+  let weighted = false;
+  for (const m of text.matchAll(/<edge\b([^>]*?)(\/>|>([\s\S]*?)<\/edge>)/g)) {
+    const src = /\bsource\s*=\s*["']([^"']+)["']/.exec(m[1]);
+    const dst = /\btarget\s*=\s*["']([^"']+)["']/.exec(m[1]);
+    if (!src || !dst) throw new Error(`Edge without source/target: ${m[0]}`);
+    const w = m[3] ? /<data\b[^>]*\bkey\s*=\s*["'](?:weight|w)["'][^>]*>\s*([^<]+?)\s*<\/data>/.exec(m[3]) : null;
+    if (w) weighted = true;
+    edges.push([src[1], dst[1], w ? Number(w[1]) : 1]);
+  }
+  return Graph.fromLabeled(edges, { directed, weighted }, labels);
+}
+
+// Grid as a graph (4- or 8-way, unit/diagonal costs) so grid paths can be
+// exported; cell (x, y) is vertex x * cols + y, labelled "x,y".
+export function gridGraph(grid: number[][], diagonal = false): Graph {
+  const R = grid.length, C = grid[0].length;
+  const g = new Graph(R * C, { directed: false, weighted: diagonal });
+  for (let x = 0; x < R; x++) {
+    for (let y = 0; y < C; y++) {
+      if (grid[x][y] === 1) continue;
+      const u = x * C + y;
+      // moves are symmetric: add each edge once, from its lower id
+      gridMoves(grid, x, y, diagonal, (nx, ny, step) => {
+        if (nx * C + ny > u) g.addEdge(u, nx * C + ny, step);
+      });
+    }
+  }
+  g.setLabels(Array.from({ length: R * C }, (_, id) => `${Math.floor(id / C)},${id % C}`));
+  return g;
+}
+
+export interface DotOptions {
+  name?: string;
+  path?: number[]; // consecutive vertices, e.g. dijkstraPaths().pathTo(v)
+  edges?: Array<[number, number] | [number, number, number]>; // e.g. kruskal() output
+  color?: string; // highlight colour, default red
+}
+
+// Graphviz DOT. Highlighted edges are matched in either direction for
+// undirected graphs; their endpoints are highlighted too.
+export function toDot(g: Graph, options: DotOptions = {}): string {
+  const color = options.color ?? 'red';
+  const key = (u: number, v: number) => (g.directed || u < v ? `${u} ${v}` : `${v} ${u}`);
+  const marked = new Set<string>();
+  const nodes = new Set<number>(options.path ?? []);
+  const path = options.path ?? [];
+  for (let i = 0; i + 1 < path.length; i++) marked.add(key(path[i], path[i + 1]));
+  for (const [u, v] of options.edges ?? []) {
+    marked.add(key(u, v));
+    nodes.add(u);
+    nodes.add(v);
+  }
+  const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const arrow = g.directed ? '->' : '--';
+  const lines = [`${g.directed ? 'digraph' : 'graph'} ${quote(options.name ?? 'G')} {`];
+  for (let v = 0; v < g.n; v++) {
+    const attrs = nodes.has(v) ? `, color=${quote(color)}, penwidth=2` : '';
+    lines.push(`  ${v} [label=${quote(g.label(v))}${attrs}];`);
+  }
+  for (const [u, v, w] of g.edges()) {
+    const attrs: string[] = [];
+    if (g.weighted) attrs.push(`label=${quote(String(w))}`);
+    if (marked.has(key(u, v))) attrs.push(`color=${quote(color)}`, 'penwidth=2');
+    lines.push(`  ${u} ${arrow} ${v}${attrs.length ? ` [${attrs.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
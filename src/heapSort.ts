@@ -0,0 +1,44 @@
+// Heap Sort (in-place, O(n log n) worst case, not stable)
+// Sorts any T[] with a comparator or key extractor (default: ascending), and
+// typed arrays directly.
+import { comparatorOf, type Comparator, type Order, type NumericArray } from './compare';
+
+export function heapSort<T>(arr: T[], order?: Order<T>): T[];
+export function heapSort<A extends NumericArray>(arr: A, order?: Order<number>): A;
+export function heapSort<T>(arr: T[] | NumericArray, order?: Order<T>) {
+  return heapSortInPlace(arr.slice() as T[], order);
+}
+
+// Sorts `arr` itself and returns it; no extra memory.
+export function heapSortInPlace<T>(arr: T[], order?: Order<T>): T[];
+export function heapSortInPlace<A extends NumericArray>(arr: A, order?: Order<number>): A;
+export function heapSortInPlace<T>(arr: T[] | NumericArray, order?: Order<T>) {
+  const a = arr as T[];
+  if (a.length > 1) heapSortRange(a, 0, a.length - 1, comparatorOf(order));
+  return arr;
+}
+
+// Sort a[l..r] (inclusive) with a max-heap whose children of offset k sit at
+// 2k+1 and 2k+2. Also the introsort fallback in quickSort.
+export function heapSortRange<T>(a: T[], l: number, r: number, cmp: Comparator<T>) {
+  const n = r - l + 1;
+  const siftDown = (k: number, size: number) => {
+    const x = a[l + k];
+    while (true) {
+      let c = 2 * k + 1;
+      if (c >= size) break;
+      if (c + 1 < size && cmp(a[l + c + 1], a[l + c]) > 0) c++;
+      if (cmp(a[l + c], x) <= 0) break;
+      a[l + k] = a[l + c];
+      k = c;
+    }
+    a[l + k] = x;
+  };
+  for (let k = (n >> 1) - 1; k >= 0; k--) siftDown(k, n);
+  for (let end = n - 1; end > 0; end--) {
+    const top = a[l];
+    a[l] = a[l + end];
+    a[l + end] = top;
+    siftDown(0, end);
+  }
+}
@@ -0,0 +1,62 @@
+// Assignment Problem - Hungarian algorithm (potentials, O(n^2 m))
+// cost[i][j] = cost of giving row i (worker) column j (job). Rectangular
+// matrices are fine: every row is assigned when rows <= columns, otherwise
+// every column is.
+export interface AssignmentResult {
+  assignment: number[]; // column chosen for each row, -1 if the row is left out
+  cost: number;
+}
+
+export function hungarian(cost: number[][]): AssignmentResult {
+  const rows = cost.length;
+  const cols = rows ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return { assignment: new Array(rows).fill(-1), cost: 0 };
+  if (rows > cols) {
+    // solve the transpose and map the answer back
+    const t = Array.from({ length: cols }, (_, j) => cost.map(row => row[j]));
+    const inner = hungarian(t);
+    const assignment = new Array(rows).fill(-1);
+    inner.assignment.forEach((i, j) => { assignment[i] = j; });
+    return { assignment, cost: inner.cost };
+  }
+  const n = rows, m = cols;
+  // 1-indexed potentials u (rows), v (cols); p[j] = row matched to column j
+  const u = new Array(n + 1).fill(0), v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0), way = new Array(m + 1).fill(0);
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity, j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) { minv[j] = cur; way[j] = j0; }
+        if (minv[j] < delta) { delta = minv[j]; j1 = j; }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) { u[p[j]] += delta; v[j] -= delta; }
+        else minv[j] -= delta;
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+  const assignment = new Array(n).fill(-1);
+  let total = 0;
+  for (let j = 1; j <= m; j++) {
+    if (p[j]) {
+      assignment[p[j] - 1] = j - 1;
+      total += cost[p[j] - 1][j - 1];
+    }
+  }
+  return { assignment, cost: total };
+}
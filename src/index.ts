@@ -2,15 +2,43 @@ export * from './binarySearch';
 export * from './kmpSearch';
 export * from './quickSort';
 export * from './mergeSort';
+export * from './heapSort';
+export * from './radixSort';
+export * from './countingSort';
+export * from './timSort';
+export * from './externalSort';
+export * from './parallelSort';
+export * from './compare';
 export * from './convolution';
 export * from './fft';
+export * from './graph';
+export * from './graphIO';
 export * from './dfs';
 export * from './bfs';
+export * from './biconnected';
+export * from './bipartite';
+export * from './eulerian';
 export * from './topologicalSort';
+export * from './dag';
+export * from './scc';
 export * from './LCA';
+export * from './treeDecomposition';
+export * from './astar';
 export * from './astarGrid';
+export * from './jumpPointSearch';
+export * from './bidirectionalSearch';
+export * from './dStarLite';
 export * from './dijkstra';
+export * from './bellmanFord';
+export * from './floydWarshall';
+export * from './johnson';
 export * from './kruskal';
+export * from './prim';
+export * from './disjointSet';
+export * from './maxFlow';
+export * from './minCostFlow';
+export * from './hungarian';
+export * from './minHeap';
 export * from './binPow';
 export * from './knapsack';
 export * from './lcs';
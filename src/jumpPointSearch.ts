@@ -0,0 +1,114 @@
+// Jump Point Search (uniform-cost 8-way grids)
+// A* that prunes symmetric paths: straight and diagonal scans skip every cell
+// without a forced neighbour, so only "jump points" enter the open set.
+// Same movement rules as astarGrid({ diagonal: true }): no corner cutting.
+// Scans run over flat indices into a copy of the grid padded with a ring of
+// walls, so stepping is one addition and needs no bounds checks.
+import { MinHeap } from './minHeap';
+import { gridHeuristics, type GridPath } from './astarGrid';
+
+export function jumpPointSearch(start: [number, number], goal: [number, number], grid: number[][]): GridPath | null {
+  const R = grid.length, C = grid[0].length;
+  const W = C + 2; // padded row width; cell (x, y) is (x + 1) * W + y + 1
+  const pass = new Uint8Array((R + 2) * W);
+  for (let x = 0; x < R; x++) for (let y = 0; y < C; y++) if (grid[x][y] !== 1) pass[(x + 1) * W + y + 1] = 1;
+  const cell = (x: number, y: number) => (x >= 0 && y >= 0 && x < R && y < C ? (x + 1) * W + y + 1 : 0);
+  const startId = cell(start[0], start[1]), goalId = cell(goal[0], goal[1]);
+  if (!pass[startId] || !pass[goalId]) return null;
+  const gx = goalId / W | 0, gy = goalId % W;
+  const h = (id: number) => gridHeuristics.octile(Math.abs((id / W | 0) - gx), Math.abs(id % W - gy));
+
+  // Straight scan from i in steps of d; `side` is the perpendicular step.
+  // Returns the first jump point or -1 at a wall.
+  const straight = (i: number, d: number, side: number): number => {
+    for (; pass[i]; i += d) {
+      if (i === goalId) return i;
+      if ((pass[i + side] && !pass[i - d + side]) || (pass[i - side] && !pass[i - d - side])) return i;
+    }
+    return -1;
+  };
+
+  // Diagonal scan: a cell is a jump point if either straight scan from it finds one.
+  const diagonal = (i: number, dx: number, dy: number): number => {
+    const v = dx * W;
+    for (; pass[i]; i += v + dy) {
+      if (i === goalId) return i;
+      if (straight(i + v, v, 1) !== -1 || straight(i + dy, dy, W) !== -1) return i;
+      if (!pass[i + v] || !pass[i + dy]) return -1;
+    }
+    return -1;
+  };
+
+  const gScore = new Float64Array(pass.length).fill(Infinity);
+  const parent = new Int32Array(pass.length).fill(-1);
+  const closed = new Uint8Array(pass.length);
+  const open = new MinHeap<number>();
+
+  // Jump from id in direction (dx, dy) and relax the jump point found, if any.
+  const scan = (id: number, dx: number, dy: number) => {
+    const next = id + dx * W + dy;
+    const jp = dx && dy ? diagonal(next, dx, dy) : straight(next, dx * W + dy, dx ? 1 : W);
+    if (jp === -1 || closed[jp]) return;
+    const steps = dx ? Math.abs((jp / W | 0) - (id / W | 0)) : Math.abs(jp - id);
+    const tentative = gScore[id] + (dx && dy ? steps * Math.SQRT2 : steps);
+    if (tentative < gScore[jp]) {
+      gScore[jp] = tentative;
+      parent[jp] = id;
+      open.push(tentative + h(jp), jp);
+    }
+  };
+
+  gScore[startId] = 0;
+  open.push(h(startId), startId);
+  while (open.size()) {
+    const id = open.pop()!.val;
+    if (closed[id]) continue;
+    closed[id] = 1;
+    if (id === goalId) break;
+    const p = parent[id];
+    // scan only the natural and forced neighbours for the arrival direction
+    if (p === -1) {
+      for (let dx = -1; dx <= 1; dx++) for (let dy = -1; dy <= 1; dy++) {
+        if ((dx || dy) && (!dx || !dy || (pass[id + dx * W] && pass[id + dy]))) scan(id, dx, dy);
+      }
+      continue;
+    }
+    const dx = Math.sign((id / W | 0) - (p / W | 0)), dy = Math.sign(id % W - p % W);
+    if (dx && dy) {
+      const vertical = pass[id + dx * W], horizontal = pass[id + dy];
+      if (horizontal) scan(id, 0, dy);
+      if (vertical) scan(id, dx, 0);
+      if (horizontal && vertical) scan(id, dx, dy);
+    } else if (dx) {
+      const up = pass[id + 1], down = pass[id - 1];
+      if (pass[id + dx * W]) {
+        scan(id, dx, 0);
+        if (up) scan(id, dx, 1);
+        if (down) scan(id, dx, -1);
+      }
+      if (up) scan(id, 0, 1);
+      if (down) scan(id, 0, -1);
+    } else {
+      const right = pass[id + W], left = pass[id - W];
+      if (pass[id + dy]) {
+        scan(id, 0, dy);
+        if (right) scan(id, 1, dy);
+        if (left) scan(id, -1, dy);
+      }
+      if (right) scan(id, 1, 0);
+      if (left) scan(id, -1, 0);
+    }
+  }
+  if (gScore[goalId] === Infinity) return null;
+  // expand the jump points back into individual cells
+  const path: [number, number][] = [];
+  for (let id = goalId; id !== -1; id = parent[id]) {
+    const p = parent[id];
+    const step = p === -1 ? 0 : Math.sign((p / W | 0) - (id / W | 0)) * W + Math.sign(p % W - id % W);
+    for (let i = id; i !== p; i += step) {
+      path.push([(i / W | 0) - 1, i % W - 1]);
+      if (!step) break;
+    }
+  }
+  return { path: path.reverse(), cost: gScore[goalId] };
+}
@@ -1,24 +1,81 @@
 // KMP (Knuth-Morris-Pratt) string search
 // Build prefix-function (pi) to skip comparisons. O(n + m).
+// Offsets are UTF-16 code unit indices, as with String#indexOf.
 export function kmpSearch(text: string, pattern: string): number[] {
-  const n = text.length, m = pattern.length;
-  if (m === 0) return [];
+  return new KmpMatcher(pattern).push(text);
+}
+
+// pi[i] = length of the longest proper border (prefix that is also a
+// suffix) of s[0..i]. The smallest period of s is s.length - pi[n - 1].
+export function prefixFunction(s: string): number[] {
+  const m = s.length;
   const pi = new Array<number>(m).fill(0);
   for (let i = 1; i < m; i++) {
     let j = pi[i - 1];
-    while (j > 0 && pattern[i] !== pattern[j]) j = pi[j - 1];
-    if (pattern[i] === pattern[j]) j++;
+    while (j > 0 && s[i] !== s[j]) j = pi[j - 1];
+    if (s[i] === s[j]) j++;
     pi[i] = j;
   }
-  const results: number[] = [];
-  let j = 0;
-  for (let i = 0; i < n; i++) {
-    while (j > 0 && text[i] !== pattern[j]) j = pi[j - 1];
-    if (text[i] === pattern[j]) j++;
-    if (j === m) {
-      results.push(i - m + 1);
-      j = pi[j - 1];
+  return pi;
+}
+
+// z[i] = length of the longest common prefix of s and s[i..]; z[0] = s.length.
+// O(n) using the rightmost match window [l, r).
+export function zFunction(s: string): number[] {
+  const n = s.length;
+  const z = new Array<number>(n).fill(0);
+  if (n) z[0] = n;
+  for (let i = 1, l = 0, r = 0; i < n; i++) {
+    if (i < r) z[i] = Math.min(r - i, z[i - l]);
+    while (i + z[i] < n && s[z[i]] === s[i + z[i]]) z[i]++;
+    if (i + z[i] > r) {
+      l = i;
+      r = i + z[i];
+    }
+  }
+  return z;
+}
+
+// Stateful matcher for text that arrives in chunks (log streams, sockets).
+// Only the automaton state is kept between chunks, so a match that straddles
+// a boundary is still found and reported with its offset in the whole stream.
+export class KmpMatcher {
+  readonly pattern: string;
+  offset = 0; // characters consumed so far
+  private pi: number[];
+  private j = 0; // length of the pattern prefix matched at the current end
+
+  constructor(pattern: string) {
+    this.pattern = pattern;
+    this.pi = prefixFunction(pattern);
+  }
+
+  // Feed the next chunk; returns the start offsets of matches ending in it.
+  push(chunk: string): number[] {
+    const { pattern, pi } = this;
+    const m = pattern.length;
+    const results: number[] = [];
+    if (m === 0) {
+      this.offset += chunk.length;
+      return results;
     }
+    let j = this.j;
+    for (let i = 0; i < chunk.length; i++) {
+      while (j > 0 && chunk[i] !== pattern[j]) j = pi[j - 1];
+      if (chunk[i] === pattern[j]) j++;
+      if (j === m) {
+        results.push(this.offset + i - m + 1);
+        j = pi[j - 1];
+      }
+    }
+    this.j = j;
+    this.offset += chunk.length;
+    return results;
+  }
+
+  // Start over as if nothing had been read.
+  reset() {
+    this.j = 0;
+    this.offset = 0;
   }
-  return results;
 }
@@ -1,23 +1,39 @@
 // Minimum Spanning Tree - Kruskal
-export function kruskal(n: number, edges: Array<[number, number, number]>) {
+import { Graph } from './graph';
+import { DisjointSet } from './disjointSet';
+
+export interface SpanningForest {
+  edges: Array<[number, number, number]>;
+  totalWeight: number;
+  component: number[]; // tree index of every vertex
+  componentCount: number;
+}
+
+export function kruskal(n: number, edges: Array<[number, number, number]>): Array<[number, number, number]>;
+export function kruskal(g: Graph): Array<[number, number, number]>;
+export function kruskal(nOrGraph: number | Graph, edgeInput: Array<[number, number, number]> = []) {
+  const n = nOrGraph instanceof Graph ? nOrGraph.n : nOrGraph;
+  let edges = nOrGraph instanceof Graph ? nOrGraph.edges() : edgeInput;
   edges = edges.slice().sort((a, b) => a[2] - b[2]);
-  const parent = new Array(n).fill(0).map((_, i) => i);
-  const rank = new Array(n).fill(0);
-  function find(a: number): number {
-    if (parent[a] !== a) parent[a] = find(parent[a]);
-    return parent[a];
-  }
-  function unite(a: number, b: number) {
-    a = find(a); b = find(b);
-    if (a === b) return false;
-    if (rank[a] < rank[b]) [a, b] = [b, a];
-    parent[b] = a;
-    if (rank[a] === rank[b]) rank[a]++;
-    return true;
-  }
+  const dsu = new DisjointSet(n);
   const mst: Array<[number, number, number]> = [];
   for (const e of edges) {
-    if (unite(e[0], e[1])) mst.push(e);
+    if (dsu.union(e[0], e[1])) mst.push(e);
   }
   return mst;
 }
+
+// Kruskal with the same forest summary that prim returns.
+export function kruskalForest(n: number, edges: Array<[number, number, number]>): SpanningForest;
+export function kruskalForest(g: Graph): SpanningForest;
+export function kruskalForest(nOrGraph: number | Graph, edgeInput: Array<[number, number, number]> = []): SpanningForest {
+  const n = nOrGraph instanceof Graph ? nOrGraph.n : nOrGraph;
+  const edges = nOrGraph instanceof Graph ? kruskal(nOrGraph) : kruskal(n, edgeInput);
+  const dsu = new DisjointSet(n);
+  let totalWeight = 0;
+  for (const [u, v, w] of edges) {
+    dsu.union(u, v);
+    totalWeight += w;
+  }
+  return { edges, totalWeight, component: dsu.components(), componentCount: dsu.count };
+}
@@ -0,0 +1,169 @@
+// Maximum Flow / Minimum Cut (Dinic) + bipartite matching
+// O(V^2 E) in general, O(E sqrt V) on unit-capacity networks such as matchings.
+import { Graph } from './graph';
+
+export interface MaxFlowResult {
+  value: number;
+  flow: number[]; // flow on each input edge, same order as the edge list
+  sourceSide: boolean[]; // min-cut partition: true for vertices reachable from s
+  cutEdges: number[]; // indices of input edges crossing the cut
+}
+
+// Residual network: edge i and its reverse i ^ 1 are stored side by side.
+class FlowNetwork {
+  n: number;
+  to: number[] = [];
+  cap: number[] = [];
+  adj: number[][];
+  constructor(n: number) {
+    this.n = n;
+    this.adj = Array.from({ length: n }, () => []);
+  }
+  addEdge(u: number, v: number, c: number): number {
+    const id = this.to.length;
+    this.to.push(v, u);
+    this.cap.push(c, 0);
+    this.adj[u].push(id);
+    this.adj[v].push(id + 1);
+    return id;
+  }
+  private levels(s: number, level: number[]): void {
+    level.fill(-1);
+    level[s] = 0;
+    const q = [s];
+    for (let head = 0; head < q.length; head++) {
+      const u = q[head];
+      for (const e of this.adj[u]) {
+        const v = this.to[e];
+        if (this.cap[e] > 0 && level[v] === -1) {
+          level[v] = level[u] + 1;
+          q.push(v);
+        }
+      }
+    }
+  }
+  // Blocking flow with an explicit path stack instead of recursion.
+  private blockingFlow(s: number, t: number, level: number[]): number {
+    const it = new Array(this.n).fill(0);
+    const path: number[] = []; // edge ids from s
+    let total = 0;
+    let u = s;
+    while (true) {
+      if (u === t) {
+        let push = Infinity;
+        for (const e of path) push = Math.min(push, this.cap[e]);
+        let back = -1;
+        for (let i = 0; i < path.length; i++) {
+          const e = path[i];
+          this.cap[e] -= push;
+          this.cap[e ^ 1] += push;
+          if (back === -1 && this.cap[e] === 0) back = i;
+        }
+        total += push;
+        path.length = back; // resume from the tail of the first saturated edge
+        u = back === 0 ? s : this.to[path[back - 1]];
+        continue;
+      }
+      let advanced = false;
+      while (it[u] < this.adj[u].length) {
+        const e = this.adj[u][it[u]];
+        const v = this.to[e];
+        if (this.cap[e] > 0 && level[v] === level[u] + 1) {
+          path.push(e);
+          u = v;
+          advanced = true;
+          break;
+        }
+        it[u]++;
+      }
+      if (advanced) continue;
+      if (u === s) return total;
+      level[u] = -1; // dead end for this phase
+      const e = path.pop()!;
+      u = this.to[e ^ 1];
+      it[u]++;
+    }
+  }
+  maxFlow(s: number, t: number): number {
+    if (s === t) return 0;
+    const level = new Array(this.n).fill(-1);
+    let flow = 0;
+    while (true) {
+      this.levels(s, level);
+      if (level[t] === -1) return flow;
+      flow += this.blockingFlow(s, t, level);
+    }
+  }
+  reachable(s: number): boolean[] {
+    const seen = new Array(this.n).fill(false);
+    seen[s] = true;
+    const stack = [s];
+    while (stack.length) {
+      const u = stack.pop()!;
+      for (const e of this.adj[u]) {
+        const v = this.to[e];
+        if (this.cap[e] > 0 && !seen[v]) {
+          seen[v] = true;
+          stack.push(v);
+        }
+      }
+    }
+    return seen;
+  }
+}
+
+// Edges are [from, to, capacity]; a Graph contributes its weights as capacities.
+export function maxFlow(n: number, edges: Array<[number, number, number]>, s: number, t: number): MaxFlowResult;
+export function maxFlow(g: Graph, s: number, t: number): MaxFlowResult;
+export function maxFlow(nOrGraph: number | Graph, edgesOrSource: Array<[number, number, number]> | number, sOrSink: number, sink?: number): MaxFlowResult {
+  const isGraph = nOrGraph instanceof Graph;
+  const n = isGraph ? nOrGraph.n : nOrGraph;
+  const edges = isGraph ? nOrGraph.edges() : edgesOrSource as Array<[number, number, number]>;
+  const s = isGraph ? edgesOrSource as number : sOrSink;
+  const t = isGraph ? sOrSink : sink!;
+  const directed = isGraph ? nOrGraph.directed : true;
+  const net = new FlowNetwork(n);
+  const ids = edges.map(([u, v, c]) => net.addEdge(u, v, c));
+  // an undirected edge can carry its capacity either way
+  const backIds = directed ? null : edges.map(([u, v, c]) => net.addEdge(v, u, c));
+  const value = net.maxFlow(s, t);
+  const flow = ids.map((id, i) => {
+    const f = net.cap[id ^ 1];
+    return backIds ? f - net.cap[backIds[i] ^ 1] : f;
+  });
+  const sourceSide = net.reachable(s);
+  const cutEdges: number[] = [];
+  edges.forEach(([u, v], i) => {
+    if (sourceSide[u] !== sourceSide[v] && (sourceSide[u] || !directed)) cutEdges.push(i);
+  });
+  return { value, flow, sourceSide, cutEdges };
+}
+
+export interface MatchingResult {
+  size: number;
+  matchLeft: number[]; // right partner of each left vertex, -1 if unmatched
+  matchRight: number[]; // left partner of each right vertex, -1 if unmatched
+  pairs: Array<[number, number]>;
+}
+
+// Maximum bipartite matching; `pairs` lists allowed [left, right] couplings.
+export function bipartiteMatching(nLeft: number, nRight: number, pairs: Array<[number, number]>): MatchingResult {
+  const s = nLeft + nRight, t = s + 1;
+  const net = new FlowNetwork(t + 1);
+  for (let l = 0; l < nLeft; l++) net.addEdge(s, l, 1);
+  for (let r = 0; r < nRight; r++) net.addEdge(nLeft + r, t, 1);
+  const ids = pairs.map(([l, r]) => net.addEdge(l, nLeft + r, 1));
+  const size = net.maxFlow(s, t);
+  const matchLeft = new Array(nLeft).fill(-1);
+  const matchRight = new Array(nRight).fill(-1);
+  const matched: Array<[number, number]> = [];
+  ids.forEach((id, i) => {
+    const [l, r] = pairs[i];
+    if (net.cap[id] === 0 && matchLeft[l] === -1 && matchRight[r] === -1) {
+      matchLeft[l] = r;
+      matchRight[r] = l;
+      matched.push([l, r]);
+    }
+  });
+  return { size, matchLeft, matchRight, pairs: matched };
+}
@@ -1,16 +1,34 @@
 // Merge Sort (stable)
-export function mergeSort(arr: number[]): number[] {
-  if (arr.length <= 1) return arr.slice();
-  const mid = Math.floor(arr.length / 2);
-  const left = mergeSort(arr.slice(0, mid));
-  const right = mergeSort(arr.slice(mid));
-  const out: number[] = [];
-  let i = 0, j = 0;
-  while (i < left.length && j < right.length) {
-    if (left[i] <= right[j]) out.push(left[i++]);
-    else out.push(right[j++]);
-  }
-  while (i < left.length) out.push(left[i++]);
-  while (j < right.length) out.push(right[j++]);
-  return out;
+// Equal elements always keep their input order. Sorts any T[] with a
+// comparator or key extractor (default: ascending), and typed arrays directly.
+import { comparatorOf, type Comparator, type Order, type NumericArray } from './compare';
+
+export function mergeSort<T>(arr: T[], order?: Order<T>): T[];
+export function mergeSort<A extends NumericArray>(arr: A, order?: Order<number>): A;
+export function mergeSort<T>(arr: T[] | NumericArray, order?: Order<T>) {
+  return mergeSortInPlace(arr.slice() as T[], order);
+}
+
+// Sorts `arr` itself and returns it. Uses one scratch copy of the input
+// instead of slicing at every level.
+export function mergeSortInPlace<T>(arr: T[], order?: Order<T>): T[];
+export function mergeSortInPlace<A extends NumericArray>(arr: A, order?: Order<number>): A;
+export function mergeSortInPlace<T>(arr: T[] | NumericArray, order?: Order<T>) {
+  const a = arr as T[];
+  if (a.length > 1) sortInto(a.slice(), a, 0, a.length, comparatorOf(order));
+  return arr;
+}
+
+// Sort dst[lo, hi) using src as scratch; both start with the same contents
+// and swap roles at each level, so no copying back is needed.
+function sortInto<T>(src: T[], dst: T[], lo: number, hi: number, cmp: Comparator<T>) {
+  if (hi - lo < 2) return;
+  const mid = (lo + hi) >>> 1;
+  sortInto(dst, src, lo, mid, cmp);
+  sortInto(dst, src, mid, hi, cmp);
+  let i = lo, j = mid, k = lo;
+  // <= takes from the left run on ties, which is what keeps the sort stable
+  while (i < mid && j < hi) dst[k++] = cmp(src[i], src[j]) <= 0 ? src[i++] : src[j++];
+  while (i < mid) dst[k++] = src[i++];
+  while (j < hi) dst[k++] = src[j++];
 }
@@ -0,0 +1,64 @@
+// Min-Cost Max-Flow (successive shortest paths with Johnson potentials)
+// Each augmentation runs Dijkstra on reduced costs: O(F * m log n) for total flow F.
+import { MinHeap } from './minHeap';
+import { bellmanFord } from './bellmanFord';
+
+export interface MinCostFlowResult {
+  flow: number;
+  cost: number;
+  edgeFlow: number[]; // flow on each input edge
+}
+
+// Edges are [from, to, capacity, cost]. Negative costs are allowed as long
+// as no negative-cost cycle is reachable from s. `limit` caps the total flow.
+export function minCostFlow(n: number, edges: Array<[number, number, number, number]>, s: number, t: number, limit = Infinity): MinCostFlowResult {
+  const to: number[] = [], cap: number[] = [], cost: number[] = [];
+  const adj: number[][] = Array.from({ length: n }, () => []);
+  for (const [u, v, c, w] of edges) {
+    adj[u].push(to.length);
+    to.push(v); cap.push(c); cost.push(w);
+    adj[v].push(to.length);
+    to.push(u); cap.push(0); cost.push(-w);
+  }
+  // initial potentials; vertices unreachable from s never become reachable
+  const initial = bellmanFord(adj.map(ids => ids.filter(e => cap[e] > 0).map(e => [to[e], cost[e]] as [number, number])), s);
+  if (initial.negativeCycle) throw new Error('Negative-cost cycle reachable from source');
+  const pot = initial.dist.map(d => (d === Infinity ? 0 : d));
+  const dist = new Array<number>(n);
+  const prevEdge = new Array<number>(n);
+  let flow = 0, total = 0;
+  while (flow < limit) {
+    dist.fill(Infinity);
+    prevEdge.fill(-1);
+    dist[s] = 0;
+    const pq = new MinHeap<number>();
+    pq.push(0, s);
+    while (pq.size()) {
+      const { key: d, val: u } = pq.pop()!;
+      if (d > dist[u]) continue;
+      for (const e of adj[u]) {
+        if (cap[e] <= 0) continue;
+        const v = to[e];
+        const nd = d + cost[e] + pot[u] - pot[v];
+        if (nd < dist[v]) {
+          dist[v] = nd;
+          prevEdge[v] = e;
+          pq.push(nd, v);
+        }
+      }
+    }
+    if (dist[t] === Infinity) break;
+    for (let v = 0; v < n; v++) if (dist[v] !== Infinity) pot[v] += dist[v];
+    let push = limit - flow;
+    for (let v = t; v !== s; v = to[prevEdge[v] ^ 1]) push = Math.min(push, cap[prevEdge[v]]);
+    for (let v = t; v !== s; v = to[prevEdge[v] ^ 1]) {
+      const e = prevEdge[v];
+      cap[e] -= push;
+      cap[e ^ 1] += push;
+      total += push * cost[e];
+    }
+    flow += push;
+  }
+  const edgeFlow = edges.map((_, i) => cap[2 * i + 1]);
+  return { flow, cost: total, edgeFlow };
+}
@@ -0,0 +1,142 @@
+// Parallel Sample Sort (worker_threads + SharedArrayBuffer)
+// 1. every worker sorts one contiguous chunk of a shared copy of the input
+// 2. p - 1 splitters are picked from a regular sample of the sorted chunks
+// 3. worker k merges the pieces of every chunk that fall into bucket k
+//    straight into its slice of the shared output
+// Numeric ascending order only (comparators cannot cross threads), with
+// TypedArray#sort's edge cases: -0 before +0, NaN last. Inputs below
+// `threshold`, or with a single thread, are sorted here with mergeSort, whose
+// default order is the same, so the result never depends on the input size.
+import { Worker } from 'node:worker_threads';
+import * as os from 'node:os';
+import { mergeSort } from './mergeSort';
+import { firstTrue } from './binarySearch';
+import type { NumericArray } from './compare';
+
+export interface ParallelSortOptions {
+  threads?: number; // default os.availableParallelism() (os.cpus().length before Node 18.14)
+  threshold?: number; // minimum length worth spawning workers for; default 2^16
+}
+
+type NumericArrayConstructor = new (buffer: ArrayBufferLike) => NumericArray;
+
+// Plain JS so it runs as an eval'd worker under Node, Bun and Deno without a
+// TypeScript loader. `less` must stay in step with the one below.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const { data, out } = workerData;
+const less = (a, b) => a < b || (a === 0 && b === 0 && 1 / a < 1 / b) || (b !== b && a === a);
+parentPort.on('message', msg => {
+  if (msg.task === 'sort') {
+    data.subarray(msg.lo, msg.hi).sort();
+  } else {
+    // k-way merge with a binary heap of piece indices keyed by their head
+    const pos = msg.ranges.map(r => r[0]), end = msg.ranges.map(r => r[1]);
+    const heap = [];
+    const head = i => data[pos[i]];
+    const up = j => {
+      while (j > 0) {
+        const p = (j - 1) >> 1;
+        if (!less(head(heap[j]), head(heap[p]))) break;
+        [heap[j], heap[p]] = [heap[p], heap[j]];
+        j = p;
+      }
+    };
+    const down = j => {
+      while (true) {
+        const l = 2 * j + 1, r = l + 1;
+        let m = j;
+        if (l < heap.length && less(head(heap[l]), head(heap[m]))) m = l;
+        if (r < heap.length && less(head(heap[r]), head(heap[m]))) m = r;
+        if (m === j) return;
+        [heap[j], heap[m]] = [heap[m], heap[j]];
+        j = m;
+      }
+    };
+    for (let i = 0; i < pos.length; i++) if (pos[i] < end[i]) { heap.push(i); up(heap.length - 1); }
+    let k = msg.offset;
+    while (heap.length) {
+      const i = heap[0];
+      out[k++] = data[pos[i]++];
+      if (pos[i] === end[i]) {
+        const last = heap.pop();
+        if (heap.length) heap[0] = last;
+      }
+      down(0);
+    }
+  }
+  parentPort.postMessage('done');
+});
+`;
+
+// Resolves with a sorted copy, backed by a SharedArrayBuffer unless it fell
+// back to mergeSort.
+export async function parallelSort<A extends NumericArray>(arr: A, options: ParallelSortOptions = {}): Promise<A> {
+  const n = arr.length;
+  const threshold = options.threshold ?? 1 << 16;
+  const p = Math.min(options.threads ?? defaultThreads(), Math.ceil(n / threshold));
+  if (n < threshold || p < 2) return mergeSort(arr);
+
+  const Ctor = arr.constructor as NumericArrayConstructor;
+  const data = new Ctor(new SharedArrayBuffer(arr.byteLength));
+  const out = new Ctor(new SharedArrayBuffer(arr.byteLength));
+  data.set(arr);
+  const bounds = Array.from({ length: p + 1 }, (_, i) => Math.floor((i * n) / p));
+  const workers = Array.from({ length: p }, () => new Worker(WORKER_SOURCE, { eval: true, workerData: { data, out } }));
+  try {
+    await Promise.all(workers.map((w, i) => call(w, { task: 'sort', lo: bounds[i], hi: bounds[i + 1] })));
+
+    // p evenly spaced samples per sorted chunk; splitters are every p-th sample
+    const samples: number[] = [];
+    for (let i = 0; i < p; i++) {
+      const len = bounds[i + 1] - bounds[i];
+      for (let j = 0; j < p; j++) samples.push(data[bounds[i] + Math.floor((j * len) / p)]);
+    }
+    samples.sort((a, b) => (less(a, b) ? -1 : less(b, a) ? 1 : 0));
+    const splitters = Array.from({ length: p - 1 }, (_, k) => samples[(k + 1) * p]);
+
+    // cut[i][k] = start of bucket k inside chunk i
+    const cut = bounds.slice(0, p).map((lo, i) => [
+      lo,
+      ...splitters.map(s => firstTrue(lo, bounds[i + 1], j => !less(data[j], s))),
+      bounds[i + 1]
+    ]);
+    let offset = 0;
+    const jobs = workers.map((w, k) => {
+      const ranges = cut.map(c => [c[k], c[k + 1]]);
+      const job = call(w, { task: 'merge', ranges, offset });
+      offset += ranges.reduce((sum, [lo, hi]) => sum + hi - lo, 0);
+      return job;
+    });
+    await Promise.all(jobs);
+    return out as A;
+  } finally {
+    await Promise.all(workers.map(w => w.terminate()));
+  }
+}
+
+// Strict order of TypedArray#sort (and of mergeSort's default comparator).
+function less(a: number, b: number) {
+  return a < b || (a === 0 && b === 0 && 1 / a < 1 / b) || (b !== b && a === a);
+}
+
+function defaultThreads() {
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+// Send one task and wait for the worker's reply (or its crash).
+function call(worker: Worker, message: object) {
+  return new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => {
+      worker.off('message', onDone);
+      reject(error);
+    };
+    const onDone = () => {
+      worker.off('error', onError);
+      resolve();
+    };
+    worker.once('message', onDone);
+    worker.once('error', onError);
+    worker.postMessage(message);
+  });
+}
@@ -0,0 +1,32 @@
+// Minimum Spanning Tree - Prim (lazy binary heap, O(m log m))
+// Restarts from every unvisited vertex, so disconnected input yields a forest.
+import { Graph, weightedAdjacencyOf, type WeightedAdjacency } from './graph';
+import { MinHeap } from './minHeap';
+import type { SpanningForest } from './kruskal';
+
+// `adj` must list each undirected edge in both directions (a Graph built
+// undirected already does).
+export function prim(input: Graph | WeightedAdjacency): SpanningForest {
+  const adj = weightedAdjacencyOf(input);
+  const n = adj.length;
+  const component = new Array(n).fill(-1);
+  const edges: Array<[number, number, number]> = [];
+  let totalWeight = 0;
+  let componentCount = 0;
+  const pq = new MinHeap<[number, number]>(); // val = [from, to]
+  for (let root = 0; root < n; root++) {
+    if (component[root] !== -1) continue;
+    const id = componentCount++;
+    component[root] = id;
+    for (const [v, w] of adj[root]) pq.push(w, [root, v]);
+    while (pq.size()) {
+      const { key: w, val: [u, v] } = pq.pop()!;
+      if (component[v] !== -1) continue;
+      component[v] = id;
+      edges.push([u, v, w]);
+      totalWeight += w;
+      for (const [x, wx] of adj[v]) if (component[x] === -1) pq.push(wx, [v, x]);
+    }
+  }
+  return { edges, totalWeight, component, componentCount };
+}
@@ -1,22 +1,79 @@
-// Quick Sort (in-place randomized pivot)
-export function quickSort(arr: number[]): number[] {
-  const a = arr.slice();
-  function qs(l: number, r: number) {
-    if (l >= r) return;
-    const pivotIdx = l + Math.floor(Math.random() * (r - l + 1));
-    const pivot = a[pivotIdx];
-    let i = l, j = r;
-    while (i <= j) {
-      while (a[i] < pivot) i++;
-      while (a[j] > pivot) j--;
-      if (i <= j) {
-        const tmp = a[i]; a[i] = a[j]; a[j] = tmp;
-        i++; j--;
+// Quick Sort (introsort: randomized 3-way quicksort, heapsort fallback)
+// Sorts any T[] with a comparator or key extractor (default: ascending), and
+// typed arrays directly. Not stable; use mergeSort when ties must keep order.
+//  - 3-way partition: runs of equal keys are finished in one pass
+//  - depth limit 2*log2(n): past it the range is heapsorted, so O(n log n) worst case
+//  - small ranges use insertion sort
+import { comparatorOf, type Comparator, type SortOptions, type NumericArray } from './compare';
+import { heapSortRange } from './heapSort';
+import { seededRandom } from './utils';
+
+export interface QuickSortOptions<T> extends SortOptions<T> {
+  seed?: number; // reproducible pivot choice; default Math.random
+}
+
+export type QuickSortOrder<T> = Comparator<T> | QuickSortOptions<T>;
+
+const INSERTION_CUTOFF = 16;
+
+export function quickSort<T>(arr: T[], order?: QuickSortOrder<T>): T[];
+export function quickSort<A extends NumericArray>(arr: A, order?: QuickSortOrder<number>): A;
+export function quickSort<T>(arr: T[] | NumericArray, order?: QuickSortOrder<T>) {
+  return quickSortInPlace(arr.slice() as T[], order);
+}
+
+// Same as quickSort but sorts `arr` itself and returns it.
+export function quickSortInPlace<T>(arr: T[], order?: QuickSortOrder<T>): T[];
+export function quickSortInPlace<A extends NumericArray>(arr: A, order?: QuickSortOrder<number>): A;
+export function quickSortInPlace<T>(arr: T[] | NumericArray, order?: QuickSortOrder<T>) {
+  const a = arr as T[];
+  const cmp = comparatorOf(order);
+  const seed = typeof order === 'object' ? order.seed : undefined;
+  const random = seed === undefined ? Math.random : seededRandom(seed);
+  const depthLimit = 2 * Math.floor(Math.log2(Math.max(a.length, 1)));
+
+  // recurse into the smaller side and loop on the larger, so the stack stays O(log n)
+  function sort(l: number, r: number, depth: number) {
+    while (r - l >= INSERTION_CUTOFF) {
+      if (depth-- === 0) {
+        heapSortRange(a, l, r, cmp);
+        return;
+      }
+      const pivot = a[l + Math.floor(random() * (r - l + 1))];
+      // a[l..lt) < pivot, a[lt..i) == pivot, a(gt..r] > pivot
+      let lt = l, i = l, gt = r;
+      while (i <= gt) {
+        const c = cmp(a[i], pivot);
+        if (c < 0) swap(a, lt++, i++);
+        else if (c > 0) swap(a, i, gt--);
+        else i++;
+      }
+      if (lt - l < r - gt) {
+        sort(l, lt - 1, depth);
+        l = gt + 1;
+      } else {
+        sort(gt + 1, r, depth);
+        r = lt - 1;
       }
     }
-    if (l < j) qs(l, j);
-    if (i < r) qs(i, r);
+    insertionSort(a, l, r, cmp);
+  }
+  sort(0, a.length - 1, depthLimit);
+  return arr;
+}
+
+function swap<T>(a: T[], i: number, j: number) {
+  const tmp = a[i]; a[i] = a[j]; a[j] = tmp;
+}
+
+function insertionSort<T>(a: T[], l: number, r: number, cmp: Comparator<T>) {
+  for (let i = l + 1; i <= r; i++) {
+    const x = a[i];
+    let j = i - 1;
+    while (j >= l && cmp(a[j], x) > 0) {
+      a[j + 1] = a[j];
+      j--;
+    }
+    a[j + 1] = x;
   }
-  qs(0, a.length - 1);
-  return a;
 }
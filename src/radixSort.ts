@@ -0,0 +1,90 @@
+// Radix Sort (LSD, 8-bit digits, stable)
+// Linear time for numeric keys: 32-bit integers take 4 passes, anything else
+// (fractions, wider integers) is sorted by its IEEE-754 bits in 8. Passes in
+// which every key has the same digit are skipped.
+import type { NumericArray } from './compare';
+
+export interface RadixSortOptions<T> {
+  key?: (x: T) => number; // numeric sort key; default the element itself
+}
+
+// Float64 words are read through a Uint32Array view, so mind the byte order.
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+export function radixSort(arr: number[]): number[];
+export function radixSort<A extends NumericArray>(arr: A): A;
+export function radixSort<T>(arr: T[], options: RadixSortOptions<T>): T[];
+export function radixSort<T>(arr: T[] | NumericArray, options: RadixSortOptions<T> = {}) {
+  return radixSortInPlace(arr.slice() as T[], options);
+}
+
+// Sorts `arr` itself and returns it. Needs O(n) scratch for keys and indices.
+export function radixSortInPlace(arr: number[]): number[];
+export function radixSortInPlace<A extends NumericArray>(arr: A): A;
+export function radixSortInPlace<T>(arr: T[], options: RadixSortOptions<T>): T[];
+export function radixSortInPlace<T>(arr: T[] | NumericArray, options: RadixSortOptions<T> = {}) {
+  const a = arr as T[];
+  const n = a.length;
+  if (n < 2) return arr;
+  const keyOf = options.key ?? ((x: T) => x as number);
+  const keys = new Float64Array(n);
+  for (let i = 0; i < n; i++) keys[i] = keyOf(a[i]);
+
+  // the key words travel with the index permutation so every pass reads sequentially
+  const words = sortableWords(keys);
+  const spare: Uint32Array[] = words.map(() => new Uint32Array(n));
+  let perm = new Uint32Array(n), next = new Uint32Array(n);
+  for (let i = 0; i < n; i++) perm[i] = i;
+  const count = new Uint32Array(256);
+  for (let w = 0; w < words.length; w++) {
+    for (let shift = 0; shift < 32; shift += 8) {
+      const word = words[w];
+      count.fill(0);
+      for (let i = 0; i < n; i++) count[(word[i] >>> shift) & 255]++;
+      if (count[(word[0] >>> shift) & 255] === n) continue;
+      for (let d = 0, sum = 0; d < 256; d++) {
+        const c = count[d];
+        count[d] = sum;
+        sum += c;
+      }
+      for (let i = 0; i < n; i++) {
+        const at = count[(word[i] >>> shift) & 255]++;
+        next[at] = perm[i];
+        for (let v = w; v < words.length; v++) spare[v][at] = words[v][i];
+      }
+      [perm, next] = [next, perm];
+      for (let v = w; v < words.length; v++) [words[v], spare[v]] = [spare[v], words[v]];
+    }
+  }
+  const src = a.slice();
+  for (let i = 0; i < n; i++) a[i] = src[perm[i]];
+  return arr;
+}
+
+// Unsigned 32-bit words whose order matches the key order, least significant
+// word first. Signed integers get their sign bit flipped; floats flip the
+// sign bit when positive and every bit when negative.
+function sortableWords(keys: Float64Array): Uint32Array[] {
+  let min = Infinity, max = -Infinity, integral = true;
+  for (const k of keys) {
+    if (k < min) min = k;
+    if (k > max) max = k;
+    if (integral && !Number.isInteger(k)) integral = false;
+  }
+  if (integral && min >= -0x80000000 && max <= 0xffffffff && (min >= 0 || max <= 0x7fffffff)) {
+    const word = new Uint32Array(keys.length);
+    const flip = min < 0 ? 0x80000000 : 0;
+    for (let i = 0; i < keys.length; i++) word[i] = (keys[i] ^ flip) >>> 0;
+    return [word];
+  }
+  const bits = new Uint32Array(keys.buffer);
+  const [loAt, hiAt] = LITTLE_ENDIAN ? [0, 1] : [1, 0];
+  const lo = new Uint32Array(keys.length), hi = new Uint32Array(keys.length);
+  for (let i = 0; i < keys.length; i++) {
+    const h = bits[2 * i + hiAt], l = bits[2 * i + loAt];
+    const negative = h >>> 31 === 1;
+    hi[i] = negative ? ~h >>> 0 : (h | 0x80000000) >>> 0;
+    lo[i] = negative ? ~l >>> 0 : l;
+  }
+  return [lo, hi];
+}
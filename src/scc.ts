@@ -0,0 +1,74 @@
+// Strongly Connected Components (Tarjan, iterative) + condensation DAG
+// O(n + m). Component ids are numbered in topological order of the condensation.
+import { Graph, adjacencyOf } from './graph';
+
+export interface SCCResult {
+  component: number[]; // component id of every vertex
+  count: number;
+  components: number[][]; // members of each component
+  condensation: number[][]; // DAG over component ids, no duplicate edges
+}
+
+export function stronglyConnectedComponents(input: Graph | number[][]): SCCResult {
+  const adj = adjacencyOf(input);
+  const n = adj.length;
+  const index = new Array(n).fill(-1);
+  const low = new Array(n).fill(0);
+  const onStack = new Array(n).fill(false);
+  const comp = new Array(n).fill(-1);
+  const stack: number[] = [];
+  const callStack: number[] = []; // explicit DFS stack of vertices
+  const edgePos: number[] = new Array(n).fill(0); // next neighbour to visit
+  let counter = 0;
+  let found = 0;
+  for (let s = 0; s < n; s++) {
+    if (index[s] !== -1) continue;
+    callStack.push(s);
+    while (callStack.length) {
+      const u = callStack[callStack.length - 1];
+      if (edgePos[u] === 0 && index[u] === -1) {
+        index[u] = low[u] = counter++;
+        stack.push(u);
+        onStack[u] = true;
+      }
+      if (edgePos[u] < adj[u].length) {
+        const v = adj[u][edgePos[u]++];
+        if (index[v] === -1) callStack.push(v);
+        else if (onStack[v]) low[u] = Math.min(low[u], index[v]);
+        continue;
+      }
+      callStack.pop();
+      if (callStack.length) {
+        const p = callStack[callStack.length - 1];
+        low[p] = Math.min(low[p], low[u]);
+      }
+      if (low[u] === index[u]) {
+        let v: number;
+        do {
+          v = stack.pop()!;
+          onStack[v] = false;
+          comp[v] = found;
+        } while (v !== u);
+        found++;
+      }
+    }
+  }
+  // Tarjan emits components in reverse topological order; flip the ids
+  const component = comp.map(c => found - 1 - c);
+  const components: number[][] = Array.from({ length: found }, () => []);
+  for (let v = 0; v < n; v++) components[component[v]].push(v);
+  const condensation: number[][] = Array.from({ length: found }, () => []);
+  const seen = new Array(found).fill(-1);
+  for (let c = 0; c < found; c++) {
+    for (const u of components[c]) {
+      for (const v of adj[u]) {
+        const d = component[v];
+        if (d !== c && seen[d] !== c) {
+          seen[d] = c;
+          condensation[c].push(d);
+        }
+      }
+    }
+  }
+  return { component, count: found, components, condensation };
+}
@@ -0,0 +1,112 @@
+// TimSort-style adaptive merge sort (stable)
+// Finds natural ascending/descending runs, extends short ones to minRun with
+// binary insertion sort, and merges runs off a stack that keeps their lengths
+// balanced. Sorted or reversed input is O(n), anything else O(n log n).
+// Unlike CPython's TimSort there is no galloping mode.
+import { comparatorOf, type Comparator, type Order, type NumericArray } from './compare';
+
+export function timSort<T>(arr: T[], order?: Order<T>): T[];
+export function timSort<A extends NumericArray>(arr: A, order?: Order<number>): A;
+export function timSort<T>(arr: T[] | NumericArray, order?: Order<T>) {
+  return timSortInPlace(arr.slice() as T[], order);
+}
+
+// Sorts `arr` itself and returns it, with scratch for one run at a time.
+export function timSortInPlace<T>(arr: T[], order?: Order<T>): T[];
+export function timSortInPlace<A extends NumericArray>(arr: A, order?: Order<number>): A;
+export function timSortInPlace<T>(arr: T[] | NumericArray, order?: Order<T>) {
+  const a = arr as T[];
+  const n = a.length;
+  if (n < 2) return arr;
+  const cmp = comparatorOf(order);
+  const minRun = minRunLength(n);
+  const base: number[] = [], len: number[] = [];
+  const tmp: T[] = [];
+
+  const mergeAt = (k: number) => {
+    mergeRuns(a, base[k], base[k + 1], base[k + 1] + len[k + 1], cmp, tmp);
+    len[k] += len[k + 1];
+    base.splice(k + 1, 1);
+    len.splice(k + 1, 1);
+  };
+
+  for (let lo = 0; lo < n;) {
+    let run = countRun(a, lo, n, cmp);
+    if (run < minRun) {
+      const force = Math.min(minRun, n - lo);
+      binaryInsertionSort(a, lo, lo + force, lo + run, cmp);
+      run = force;
+    }
+    base.push(lo);
+    len.push(run);
+    lo += run;
+    // keep len[k-2] > len[k-1] + len[k] and len[k-1] > len[k] down the stack
+    while (len.length > 1) {
+      let k = len.length - 2;
+      if ((k > 0 && len[k - 1] <= len[k] + len[k + 1]) || (k > 1 && len[k - 2] <= len[k - 1] + len[k])) {
+        if (len[k - 1] < len[k + 1]) k--;
+      } else if (len[k] > len[k + 1]) {
+        break;
+      }
+      mergeAt(k);
+    }
+  }
+  while (len.length > 1) {
+    let k = len.length - 2;
+    if (k > 0 && len[k - 1] < len[k + 1]) k--;
+    mergeAt(k);
+  }
+  return arr;
+}
+
+// n itself below 64, else a value in [32, 64] such that n / minRun is
+// close to (and no more than) a power of two.
+function minRunLength(n: number) {
+  let r = 0;
+  while (n >= 64) {
+    r |= n & 1;
+    n >>= 1;
+  }
+  return n + r;
+}
+
+// Length of the run starting at lo; strictly descending runs are reversed
+// in place (strict, so equal elements never swap and stability holds).
+function countRun<T>(a: T[], lo: number, hi: number, cmp: Comparator<T>) {
+  let end = lo + 1;
+  if (end === hi) return 1;
+  if (cmp(a[end++], a[lo]) < 0) {
+    while (end < hi && cmp(a[end], a[end - 1]) < 0) end++;
+    for (let i = lo, j = end - 1; i < j; i++, j--) {
+      const t = a[i]; a[i] = a[j]; a[j] = t;
+    }
+  } else {
+    while (end < hi && cmp(a[end], a[end - 1]) >= 0) end++;
+  }
+  return end - lo;
+}
+
+// a[lo, start) is already sorted; insert a[start, hi) after any equal keys.
+function binaryInsertionSort<T>(a: T[], lo: number, hi: number, start: number, cmp: Comparator<T>) {
+  for (let i = start; i < hi; i++) {
+    const x = a[i];
+    let left = lo, right = i;
+    while (left < right) {
+      const mid = (left + right) >>> 1;
+      if (cmp(x, a[mid]) < 0) right = mid;
+      else left = mid + 1;
+    }
+    for (let j = i; j > left; j--) a[j] = a[j - 1];
+    a[left] = x;
+  }
+}
+
+// Merge sorted a[lo, mid) and a[mid, hi), copying only the left run out.
+function mergeRuns<T>(a: T[], lo: number, mid: number, hi: number, cmp: Comparator<T>, tmp: T[]) {
+  if (cmp(a[mid - 1], a[mid]) <= 0) return; // already in order
+  const m = mid - lo;
+  for (let i = 0; i < m; i++) tmp[i] = a[lo + i];
+  let i = 0, j = mid, k = lo;
+  while (i < m && j < hi) a[k++] = cmp(tmp[i], a[j]) <= 0 ? tmp[i++] : a[j++];
+  while (i < m) a[k++] = tmp[i++];
+}
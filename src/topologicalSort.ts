@@ -1,5 +1,19 @@
 // Topological Sort (Kahn)
-export function topologicalSort(adj: number[][]): number[] | null {
+import { Graph, adjacencyOf } from './graph';
+
+export type TopologicalResult =
+  | { order: number[]; cycle: null }
+  | { order: null; cycle: number[] }; // cycle lists vertices in edge order
+
+export interface TopologicalSortOptions {
+  witness: true; // report a cycle instead of returning null
+}
+
+export function topologicalSort(adj: number[][]): number[] | null;
+export function topologicalSort(g: Graph): number[] | null;
+export function topologicalSort(input: Graph | number[][], options: TopologicalSortOptions): TopologicalResult;
+export function topologicalSort(input: Graph | number[][], options?: TopologicalSortOptions): number[] | null | TopologicalResult {
+  const adj = adjacencyOf(input);
   const n = adj.length;
   const indeg = new Array(n).fill(0);
   for (let u = 0; u < n; u++) for (const v of adj[u]) indeg[v]++;
@@ -14,6 +28,27 @@ export function topologicalSort(adj: number[][]): number[] | null {
       if (indeg[v] === 0) q.push(v);
     }
   }
-  if (order.length !== n) return null; // cycle detected
-  return order;
+  if (!options?.witness) return order.length === n ? order : null; // null = cycle detected
+  if (order.length === n) return { order, cycle: null };
+  return { order: null, cycle: findCycle(adj, indeg) };
+}
+
+// Every vertex Kahn left behind still has an incoming edge from another
+// leftover vertex, so walking those edges backwards must revisit a vertex.
+function findCycle(adj: number[][], indeg: number[]): number[] {
+  const n = adj.length;
+  const pred = new Array(n).fill(-1);
+  for (let u = 0; u < n; u++) {
+    if (indeg[u] === 0) continue;
+    for (const v of adj[u]) if (indeg[v] > 0) pred[v] = u;
+  }
+  let v = indeg.findIndex(d => d > 0);
+  const seen = new Array(n).fill(false);
+  while (!seen[v]) {
+    seen[v] = true;
+    v = pred[v];
+  }
+  const cycle = [v];
+  for (let u = pred[v]; u !== v; u = pred[u]) cycle.push(u);
+  return cycle.reverse();
 }
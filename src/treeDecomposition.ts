@@ -0,0 +1,251 @@
+// Heavy-Light Decomposition + Euler tour (path and subtree queries on trees)
+// Heavy children are visited first, so every heavy chain and every subtree is a
+// contiguous range of positions. Both map onto one lazy segment tree:
+// O(log^2 n) per path operation, O(log n) per subtree operation.
+import { Graph, adjacencyOf } from './graph';
+
+// `op` must be associative with `identity` as neutral element; it need not
+// be commutative: queryPath(u, v) combines the values in order from u to v.
+// For that the segment tree also keeps every aggregate in reverse order, which
+// ops flagged `commutative` (sum, min, max, gcd, xor, ...) skip.
+// `apply`/`compose` enable range updates: apply(agg, u, size) updates an
+// aggregate of `size` values; compose(a, b) is the update "a, then b".
+export interface TreeOps<T, U = T> {
+  op: (a: T, b: T) => T;
+  identity: T;
+  commutative?: boolean;
+  apply?: (value: T, update: U, size: number) => T;
+  compose?: (first: U, second: U) => U;
+}
+
+export const sumAddOps: TreeOps<number, number> = {
+  op: (a, b) => a + b,
+  identity: 0,
+  commutative: true,
+  apply: (value, add, size) => value + add * size,
+  compose: (a, b) => a + b
+};
+
+export const maxAddOps: TreeOps<number, number> = {
+  op: (a, b) => Math.max(a, b),
+  identity: -Infinity,
+  commutative: true,
+  apply: (value, add) => value + add,
+  compose: (a, b) => a + b
+};
+
+// rtree[node] aggregates the same range right to left; it is only kept for
+// non-commutative ops.
+class LazySegmentTree<T, U> {
+  n: number;
+  tree: T[];
+  rtree: T[] | null;
+  lazy: Array<U | undefined>;
+  ops: TreeOps<T, U>;
+  constructor(values: T[], ops: TreeOps<T, U>) {
+    this.n = values.length;
+    this.ops = ops;
+    this.tree = new Array(4 * Math.max(1, this.n)).fill(ops.identity);
+    this.rtree = ops.commutative ? null : this.tree.slice();
+    this.lazy = new Array(4 * Math.max(1, this.n)).fill(undefined);
+    if (this.n) this.build(1, 0, this.n - 1, values);
+  }
+  private pull(node: number) {
+    const { op } = this.ops;
+    this.tree[node] = op(this.tree[node * 2], this.tree[node * 2 + 1]);
+    if (this.rtree) this.rtree[node] = op(this.rtree[node * 2 + 1], this.rtree[node * 2]);
+  }
+  private leaf(node: number, value: T) {
+    this.tree[node] = value;
+    if (this.rtree) this.rtree[node] = value;
+  }
+  private build(node: number, l: number, r: number, values: T[]) {
+    if (l === r) { this.leaf(node, values[l]); return; }
+    const m = (l + r) >> 1;
+    this.build(node * 2, l, m, values);
+    this.build(node * 2 + 1, m + 1, r, values);
+    this.pull(node);
+  }
+  private applyAt(node: number, size: number, u: U) {
+    this.tree[node] = this.ops.apply!(this.tree[node], u, size);
+    if (this.rtree) this.rtree[node] = this.ops.apply!(this.rtree[node], u, size);
+    const old = this.lazy[node];
+    this.lazy[node] = old === undefined ? u : this.ops.compose!(old, u);
+  }
+  private push(node: number, l: number, m: number, r: number) {
+    const u = this.lazy[node];
+    if (u === undefined) return;
+    this.applyAt(node * 2, m - l + 1, u);
+    this.applyAt(node * 2 + 1, r - m, u);
+    this.lazy[node] = undefined;
+  }
+  set(i: number, value: T, node = 1, l = 0, r = this.n - 1) {
+    if (l === r) { this.leaf(node, value); return; }
+    const m = (l + r) >> 1;
+    this.push(node, l, m, r);
+    if (i <= m) this.set(i, value, node * 2, l, m);
+    else this.set(i, value, node * 2 + 1, m + 1, r);
+    this.pull(node);
+  }
+  update(ql: number, qr: number, u: U, node = 1, l = 0, r = this.n - 1) {
+    if (qr < l || r < ql) return;
+    if (ql <= l && r <= qr) { this.applyAt(node, r - l + 1, u); return; }
+    const m = (l + r) >> 1;
+    this.push(node, l, m, r);
+    this.update(ql, qr, u, node * 2, l, m);
+    this.update(ql, qr, u, node * 2 + 1, m + 1, r);
+    this.pull(node);
+  }
+  // Aggregate of [ql, qr], combined right to left when `reversed`.
+  query(ql: number, qr: number, reversed = false, node = 1, l = 0, r = this.n - 1): T {
+    if (qr < l || r < ql) return this.ops.identity;
+    if (ql <= l && r <= qr) return reversed && this.rtree ? this.rtree[node] : this.tree[node];
+    const m = (l + r) >> 1;
+    this.push(node, l, m, r);
+    const left = this.query(ql, qr, reversed, node * 2, l, m);
+    const right = this.query(ql, qr, reversed, node * 2 + 1, m + 1, r);
+    return reversed ? this.ops.op(right, left) : this.ops.op(left, right);
+  }
+}
+
+export class TreeDecomposition<T, U = T> {
+  n: number;
+  parent: number[];
+  depth: number[];
+  size: number[];
+  heavy: number[]; // heavy child, -1 for leaves
+  head: number[]; // top vertex of each vertex's heavy chain
+  pos: number[]; // Euler-tour entry index (tin)
+  end: number[]; // one past the last index of the subtree (tout)
+  treeRoot: number[];
+  private seg: LazySegmentTree<T, U>;
+  private ops: TreeOps<T, U>;
+
+  // Same adjacency input as LCA; vertices outside root's tree start new trees.
+  constructor(input: Graph | number[][], values: T[], ops: TreeOps<T, U>, root = 0) {
+    const g = adjacencyOf(input);
+    const n = this.n = g.length;
+    this.ops = ops;
+    this.parent = new Array(n).fill(-1);
+    this.depth = new Array(n).fill(0);
+    this.size = new Array(n).fill(1);
+    this.heavy = new Array(n).fill(-1);
+    this.head = new Array(n).fill(0);
+    this.pos = new Array(n).fill(0);
+    this.end = new Array(n).fill(0);
+    this.treeRoot = new Array(n).fill(-1);
+    const roots = n ? [root] : [];
+    for (let v = 0; v < n; v++) roots.push(v);
+    let cur = 0;
+    for (const r of roots) {
+      if (this.treeRoot[r] !== -1) continue;
+      // pass 1: parents and a preorder, then sizes/heavy children in reverse
+      const order: number[] = [];
+      const stack = [r];
+      this.treeRoot[r] = r;
+      while (stack.length) {
+        const u = stack.pop()!;
+        order.push(u);
+        for (const v of g[u]) if (this.treeRoot[v] === -1) {
+          this.treeRoot[v] = r;
+          this.parent[v] = u;
+          this.depth[v] = this.depth[u] + 1;
+          stack.push(v);
+        }
+      }
+      for (let i = order.length - 1; i > 0; i--) {
+        const v = order[i], p = this.parent[v];
+        this.size[p] += this.size[v];
+        if (this.heavy[p] === -1 || this.size[v] > this.size[this.heavy[p]]) this.heavy[p] = v;
+      }
+      // pass 2: preorder with the heavy child first assigns positions
+      this.head[r] = r;
+      const visit = [r];
+      while (visit.length) {
+        const u = visit.pop()!;
+        this.pos[u] = cur++;
+        this.end[u] = this.pos[u] + this.size[u];
+        for (const v of g[u]) if (this.parent[v] === u && v !== this.heavy[u]) {
+          this.head[v] = v;
+          visit.push(v);
+        }
+        if (this.heavy[u] !== -1) {
+          this.head[this.heavy[u]] = this.head[u];
+          visit.push(this.heavy[u]); // popped next, so the chain stays contiguous
+        }
+      }
+    }
+    const base = new Array<T>(n);
+    for (let v = 0; v < n; v++) base[this.pos[v]] = values[v];
+    this.seg = new LazySegmentTree(base, ops);
+  }
+
+  lca(u: number, v: number): number {
+    if (this.treeRoot[u] !== this.treeRoot[v]) return -1;
+    while (this.head[u] !== this.head[v]) {
+      if (this.depth[this.head[u]] < this.depth[this.head[v]]) [u, v] = [v, u];
+      u = this.parent[this.head[u]];
+    }
+    return this.depth[u] < this.depth[v] ? u : v;
+  }
+
+  // Visit the position ranges that make up the u-v path.
+  private forPath(u: number, v: number, fn: (l: number, r: number) => void) {
+    if (this.treeRoot[u] !== this.treeRoot[v]) throw new Error(`Vertices ${u} and ${v} are in different trees`);
+    while (this.head[u] !== this.head[v]) {
+      if (this.depth[this.head[u]] < this.depth[this.head[v]]) [u, v] = [v, u];
+      fn(this.pos[this.head[u]], this.pos[u]);
+      u = this.parent[this.head[u]];
+    }
+    if (this.depth[u] > this.depth[v]) [u, v] = [v, u];
+    fn(this.pos[u], this.pos[v]);
+  }
+
+  private requireLazy() {
+    if (!this.ops.apply || !this.ops.compose) throw new Error('Range updates need apply and compose in TreeOps');
+  }
+
+  get(v: number): T {
+    return this.seg.query(this.pos[v], this.pos[v]);
+  }
+
+  // Point update: replace the value stored at v.
+  set(v: number, value: T) {
+    this.seg.set(this.pos[v], value);
+  }
+
+  updatePath(u: number, v: number, update: U) {
+    this.requireLazy();
+    this.forPath(u, v, (l, r) => this.seg.update(l, r, update));
+  }
+
+  updateSubtree(v: number, update: U) {
+    this.requireLazy();
+    this.seg.update(this.pos[v], this.end[v] - 1, update);
+  }
+
+  // Values on the u-v path combined in path order. Positions grow downwards
+  // along a chain, so segments climbing from u are read reversed.
+  queryPath(u: number, v: number): T {
+    if (this.treeRoot[u] !== this.treeRoot[v]) throw new Error(`Vertices ${u} and ${v} are in different trees`);
+    const { op } = this.ops;
+    let fromU = this.ops.identity, toV = this.ops.identity;
+    while (this.head[u] !== this.head[v]) {
+      if (this.depth[this.head[u]] >= this.depth[this.head[v]]) {
+        fromU = op(fromU, this.seg.query(this.pos[this.head[u]], this.pos[u], true));
+        u = this.parent[this.head[u]];
+      } else {
+        toV = op(this.seg.query(this.pos[this.head[v]], this.pos[v]), toV);
+        v = this.parent[this.head[v]];
+      }
+    }
+    const middle = this.depth[u] > this.depth[v]
+      ? this.seg.query(this.pos[v], this.pos[u], true)
+      : this.seg.query(this.pos[u], this.pos[v]);
+    return op(op(fromU, middle), toV);
+  }
+
+  querySubtree(v: number): T {
+    return this.seg.query(this.pos[v], this.end[v] - 1);
+  }
+}
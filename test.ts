@@ -15,8 +15,59 @@ import {
   knapsack,
   lcs,
   gcd,
-  convolution
+  convolution,
+  Graph,
+  dijkstraPaths,
+  bellmanFord,
+  spfa,
+  floydWarshall,
+  johnson,
+  DisjointSet,
+  prim,
+  stronglyConnectedComponents,
+  maxFlow,
+  bipartiteMatching,
+  minCostFlow,
+  hungarian,
+  TreeDecomposition,
+  sumAddOps,
+  astar,
+  jumpPointSearch,
+  bidirectionalSearch,
+  DStarLite,
+  bfsVisit,
+  dfsVisit,
+  biconnectedComponents,
+  bipartite,
+  eulerianPath,
+  parseDimacs,
+  parseEdgeList,
+  parseJsonAdjacency,
+  parseGraphML,
+  toDot,
+  lexicographicTopologicalSort,
+  allTopologicalSorts,
+  dagLongestPaths,
+  criticalPath,
+  mergeSortInPlace,
+  heapSort,
+  radixSort,
+  countingSort,
+  timSort,
+  equalRange,
+  firstTrue,
+  bisect,
+  exponentialSearch,
+  externalSort,
+  parallelSort,
+  KmpMatcher,
+  prefixFunction,
+  zFunction
 } from './src';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { spawnSync } from 'node:child_process';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 console.log('🧪 Running Algorithm Tests...\n');
 
@@ -108,7 +159,7 @@ const grid = [
 ]; // 1 = blocked, 0 = free
 const path = astarGrid([0, 0], [3, 3], grid);
 console.log(`   Grid (1=blocked): ${JSON.stringify(grid)}`);
-console.log(`   Path from (0,0) to (3,3): ${path ? JSON.stringify(path) : 'No path'}`);
+console.log(`   Path from (0,0) to (3,3): ${path ? JSON.stringify(path.path) : 'No path'}, cost ${path?.cost}`);
 console.log(`   ✅ Found valid path\n`);
 
 // Test Kruskal MST
@@ -165,4 +216,375 @@ console.log(`   Signal 1: [${signal1.join(', ')}], Signal 2: [${signal2.join(',
 console.log(`   Convolution: [${convResult.join(', ')}]`);
 console.log(`   ✅ Expected: [4, 13, 22, 15], Got: [${convResult.join(', ')}]\n`);
 
+// Test Graph builder
+console.log('16. Graph Builder:');
+const labeled = Graph.fromLabeled([['a', 'b', 4], ['a', 'c', 1], ['c', 'b', 2], ['b', 'd', 1]], { directed: true });
+const labeledDist = dijkstra(labeled, labeled.id('a'));
+console.log(`   Edges: ${JSON.stringify(labeled.edges())}`);
+console.log(`   Dijkstra from "a": [${labeledDist.join(', ')}], BFS: [${bfs(labeled, 0).map(v => labeled.label(v)).join(', ')}]`);
+console.log(`   ✅ Expected: [0, 3, 1, 4], Got: [${labeledDist.join(', ')}]`);
+const undirected = Graph.fromEdges(4, edges);
+console.log(`   Kruskal on Graph: ${JSON.stringify(kruskal(undirected))}`);
+console.log(`   ✅ Same MST as edge-list input: ${JSON.stringify(kruskal(undirected)) === JSON.stringify(mst)}\n`);
+
+// Test Dijkstra paths
+console.log('17. Dijkstra Paths:');
+const routed = dijkstraPaths(weightedGraph, 0, { target: 3 });
+console.log(`   Path 0 -> 3: [${routed.pathTo(3)?.join(', ')}], cost ${routed.dist[3]}`);
+console.log(`   ✅ Expected: [0, 2, 3], Got: [${routed.pathTo(3)?.join(', ')}]`);
+const multi = dijkstraPaths(weightedGraph, [0, 1]);
+console.log(`   Sources {0, 1}: [${multi.dist.join(', ')}]`);
+console.log(`   ✅ Expected: [0, 0, 1, 2], Got: [${multi.dist.join(', ')}]\n`);
+
+// Test Bellman-Ford / SPFA
+console.log('18. Bellman-Ford / SPFA:');
+const negativeEdges: Array<Array<[number, number]>> = [
+  [[1, 4], [2, 5]],
+  [[2, -3]],
+  [[3, 2]],
+  []
+];
+const bf = bellmanFord(negativeEdges, 0);
+console.log(`   Distances with negative edge: [${bf.dist.join(', ')}], SPFA: [${spfa(negativeEdges, 0).dist.join(', ')}]`);
+console.log(`   ✅ Expected: [0, 4, 1, 3], Got: [${bf.dist.join(', ')}]`);
+const withCycle: Array<Array<[number, number]>> = [[[1, 1]], [[2, -2]], [[1, 1], [3, 1]], []];
+console.log(`   Negative cycle: [${bellmanFord(withCycle, 0).negativeCycle?.join(', ')}]`);
+console.log(`   ✅ Expected: [1, 2] (any rotation), SPFA: [${spfa(withCycle, 0).negativeCycle?.join(', ')}]\n`);
+
+// Test All-Pairs Shortest Paths
+console.log('19. Floyd-Warshall / Johnson:');
+const fw = floydWarshall(negativeEdges);
+const jn = johnson(negativeEdges);
+console.log(`   Floyd-Warshall row 0: [${fw.dist[0].join(', ')}], path 0 -> 3: [${fw.path(0, 3)?.join(', ')}]`);
+console.log(`   ✅ Expected: [0, 4, 1, 3], Got: [${fw.dist[0].join(', ')}]`);
+console.log(`   Johnson row 1: [${jn.dist[1].join(', ')}], path 0 -> 3: [${jn.path(0, 3)?.join(', ')}]`);
+console.log(`   ✅ Matches Floyd-Warshall: ${JSON.stringify(jn.dist) === JSON.stringify(fw.dist)}\n`);
+
+// Test Disjoint Set / Prim
+console.log('20. Disjoint Set / Prim MST:');
+const dsu = new DisjointSet(5);
+dsu.union(0, 1); dsu.union(3, 4); dsu.union(1, 0);
+console.log(`   After union(0,1), union(3,4): components=${dsu.count}, size(1)=${dsu.size(1)}, connected(0,4)=${dsu.connected(0, 4)}`);
+console.log(`   ✅ Expected: 3, 2, false`);
+const forestInput = Graph.fromEdges(6, [[0, 1, 4], [0, 2, 1], [1, 2, 2], [1, 3, 5], [2, 3, 1], [4, 5, 7]]);
+const forest = prim(forestInput);
+console.log(`   Prim forest: ${JSON.stringify(forest.edges)}, total ${forest.totalWeight}, components [${forest.component.join(', ')}]`);
+console.log(`   ✅ Expected total: 11, Got: ${forest.totalWeight}\n`);
+
+// Test SCC / cycle witness
+console.log('21. Strongly Connected Components:');
+const cyclic = [[1], [2], [0, 3], [4], [3], []];
+const scc = stronglyConnectedComponents(cyclic);
+console.log(`   Graph: ${JSON.stringify(cyclic)}`);
+console.log(`   Components: ${JSON.stringify(scc.components)}, condensation: ${JSON.stringify(scc.condensation)}`);
+console.log(`   ✅ Expected: [[5],[0,1,2],[3,4]] (topological order), Got: ${JSON.stringify(scc.components)}`);
+const witness = topologicalSort(cyclic, { witness: true });
+console.log(`   Topological sort cycle witness: [${witness.cycle?.join(' -> ')}]`);
+console.log(`   ✅ Found a cycle: ${witness.cycle !== null}\n`);
+
+// Test Max Flow / Bipartite Matching
+console.log('22. Max Flow / Bipartite Matching:');
+const capacities: Array<[number, number, number]> = [[0, 1, 3], [0, 2, 2], [1, 2, 1], [1, 3, 2], [2, 3, 3]];
+const flow = maxFlow(4, capacities, 0, 3);
+console.log(`   Capacities: ${JSON.stringify(capacities)}`);
+console.log(`   Max flow: ${flow.value}, edge flows [${flow.flow.join(', ')}], cut edges [${flow.cutEdges.join(', ')}]`);
+console.log(`   ✅ Expected: 5, Got: ${flow.value}`);
+const matching = bipartiteMatching(3, 3, [[0, 0], [0, 1], [1, 0], [2, 1], [2, 2]]);
+console.log(`   Matching pairs: ${JSON.stringify(matching.pairs)}`);
+console.log(`   ✅ Expected size: 3, Got: ${matching.size}\n`);
+
+// Test Min-Cost Flow / Hungarian
+console.log('23. Min-Cost Flow / Hungarian:');
+const jobCosts = [
+  [9, 2, 7],
+  [6, 4, 3],
+  [5, 8, 1]
+];
+const assigned = hungarian(jobCosts);
+console.log(`   Cost matrix: ${JSON.stringify(jobCosts)}`);
+console.log(`   Hungarian assignment: [${assigned.assignment.join(', ')}], cost ${assigned.cost}`);
+console.log(`   ✅ Expected cost: 9, Got: ${assigned.cost}`);
+const transport = minCostFlow(4, [[0, 1, 2, 1], [0, 2, 2, 3], [1, 3, 1, 1], [1, 2, 1, 1], [2, 3, 3, 1]], 0, 3);
+console.log(`   Min-cost flow: flow ${transport.flow}, cost ${transport.cost}`);
+console.log(`   ✅ Expected: flow 4, cost 13, Got: flow ${transport.flow}, cost ${transport.cost}\n`);
+
+// Test LCA forest queries
+console.log('24. LCA (forest, k-th ancestor, distance):');
+// tree 0-1, 0-2, 1-3, 1-4 plus a separate tree 5-6
+const forestAdj = [[1, 2], [0, 3, 4], [0], [1], [1], [6], [5]];
+const forestLca = new LCA(forestAdj, 0);
+console.log(`   LCA(3, 4) = ${forestLca.query(3, 4)}, LCA(3, 6) = ${forestLca.query(3, 6)}, kthAncestor(3, 2) = ${forestLca.kthAncestor(3, 2)}`);
+console.log(`   ✅ Expected: 1, -1, 0`);
+console.log(`   distance(3, 2) = ${forestLca.distance(3, 2)}, path: [${forestLca.pathNodes(3, 2)?.join(', ')}]`);
+console.log(`   ✅ Expected: 3, [3, 1, 0, 2]\n`);
+
+// Test Heavy-Light Decomposition
+console.log('25. Heavy-Light Decomposition:');
+const weightedTree = [[1, 2], [0, 3, 4], [0], [1], [1]];
+const hld = new TreeDecomposition(weightedTree, [5, 3, 2, 1, 4], sumAddOps);
+console.log(`   Path sum 3 -> 2: ${hld.queryPath(3, 2)}, subtree sum of 1: ${hld.querySubtree(1)}`);
+console.log(`   ✅ Expected: 11, 8`);
+hld.updatePath(4, 2, 10);
+hld.set(3, 0);
+console.log(`   After +10 on path 4 -> 2 and set(3, 0): path sum 3 -> 2 = ${hld.queryPath(3, 2)}, subtree sum of 1 = ${hld.querySubtree(1)}`);
+console.log(`   ✅ Expected: 40, 27`);
+// string concatenation is not commutative: the path has to come out in order
+const labelled = new TreeDecomposition(weightedTree, ['a', 'b', 'c', 'd', 'e'], { op: (a: string, b: string) => a + b, identity: '' });
+labelled.set(1, 'B');
+console.log(`   Labels 3 -> 2: ${labelled.queryPath(3, 2)}, 2 -> 4: ${labelled.queryPath(2, 4)}, 4 -> 3: ${labelled.queryPath(4, 3)}`);
+console.log(`   ✅ Expected: dBac, caBe, eBd\n`);
+
+// Test generic A* / 8-way grid
+console.log('26. Generic A* / 8-way Grid:');
+const generic = astar(weightedGraph, 0, 3);
+console.log(`   A* on weighted graph 0 -> 3: [${generic?.path.join(', ')}], cost ${generic?.cost}`);
+console.log(`   ✅ Expected: [0, 2, 3], cost 2`);
+const diagonalPath = astarGrid([0, 0], [3, 3], grid, { diagonal: true });
+console.log(`   8-way path: ${JSON.stringify(diagonalPath?.path)}, cost ${diagonalPath?.cost.toFixed(3)}`);
+console.log(`   ✅ Expected cost: ${(4 + Math.SQRT2).toFixed(3)}`);
+const swamp = [[1, 1, 1, 1], [1, 1, 1, 1], [1, 9, 9, 1], [1, 1, 1, 1]];
+const weightedPath = astarGrid([0, 0], [3, 3], grid, { weights: swamp });
+console.log(`   Weighted path cost: ${weightedPath?.cost}`);
+console.log(`   ✅ Expected: 6, Got: ${weightedPath?.cost}\n`);
+
+// Test Jump Point Search / Bidirectional Search
+console.log('27. Jump Point Search / Bidirectional Search:');
+const jps = jumpPointSearch([0, 0], [3, 3], grid);
+const bidi = bidirectionalSearch([0, 0], [3, 3], grid);
+console.log(`   JPS path: ${JSON.stringify(jps?.path)}, cost ${jps?.cost.toFixed(3)}`);
+console.log(`   ✅ Same cost as 8-way A*: ${jps?.cost === diagonalPath?.cost}`);
+console.log(`   Bidirectional BFS path: ${JSON.stringify(bidi?.path)}, cost ${bidi?.cost}`);
+console.log(`   ✅ Same cost as 4-way A*: ${bidi?.cost === path?.cost}\n`);
+
+// Test D* Lite replanning
+console.log('28. D* Lite Replanning:');
+const planner = new DStarLite(grid, [0, 0], [3, 3]);
+const firstPlan = planner.replan();
+planner.updateCell(2, 0, true);
+const repaired = planner.replan();
+console.log(`   Initial cost: ${firstPlan?.cost}, after blocking (2,0): ${repaired?.cost} via ${JSON.stringify(repaired?.path)}`);
+console.log(`   ✅ Expected: 6, 6 (matches fresh A*: ${repaired?.cost === astarGrid([0, 0], [3, 3], planner.grid)?.cost})`);
+// diagonal mode: √2 costs make near-equal keys, every replan must still match A*
+const openField = Array.from({ length: 5 }, () => new Array(7).fill(0));
+const diagonalPlanner = new DStarLite(openField, [1, 6], [4, 1], { diagonal: true });
+const diagonalCosts: string[] = [];
+const replanMatches: boolean[] = [];
+const checkReplan = () => {
+  const plan = diagonalPlanner.replan();
+  const fresh = astarGrid(diagonalPlanner.start, [4, 1], diagonalPlanner.grid, { diagonal: true });
+  diagonalCosts.push(plan ? plan.cost.toFixed(2) : 'none');
+  replanMatches.push(plan !== null && fresh !== null && Math.abs(plan.cost - fresh.cost) < 1e-9);
+};
+checkReplan();
+diagonalPlanner.updateCell(4, 2, true);
+checkReplan();
+diagonalPlanner.updateCell(3, 2, true);
+diagonalPlanner.moveStart(1, 5);
+checkReplan();
+console.log(`   Diagonal replans: [${diagonalCosts.join(', ')}], all match fresh A*: ${replanMatches.every(Boolean)}`);
+console.log(`   ✅ Expected: [6.24, 6.83, 6.41], true\n`);
+
+// Test visitor BFS/DFS
+console.log('29. Visitor BFS/DFS:');
+const levels = bfsVisit(graph, 0).level;
+console.log(`   BFS levels from 0: [${levels.join(', ')}]`);
+console.log(`   ✅ Expected: [0, 1, 1, 2, 2, 2]`);
+const edgeKinds: string[] = [];
+const timed = dfsVisit(dag, undefined, { onEdge: (u, v, kind) => edgeKinds.push(`${u}->${v} ${kind}`) });
+console.log(`   DFS on DAG: discovery [${timed.discovery.join(', ')}], finish [${timed.finish.join(', ')}]`);
+console.log(`   Edges: ${edgeKinds.join(', ')}`);
+console.log(`   ✅ Expected 2->3 to be a cross edge: ${edgeKinds.includes('2->3 cross')}\n`);
+
+// Test articulation points / bridges / bipartiteness
+console.log('30. Articulation Points / Bridges / Bipartite:');
+// triangle 0-1-2 hanging off vertex 2 by the bridge 2-3, then 3-4
+const network = [[1, 2], [0, 2], [0, 1, 3], [2, 4], [3]];
+const resilience = biconnectedComponents(network);
+console.log(`   Articulation points: [${resilience.articulationPoints.join(', ')}], bridges: ${JSON.stringify(resilience.bridges)}`);
+console.log(`   ✅ Expected: [2, 3], [[3,4],[2,3]]`);
+console.log(`   Biconnected components: ${JSON.stringify(resilience.components)}`);
+const colouring = bipartite(graph);
+const oddCheck = bipartite(network);
+console.log(`   Tree is bipartite: ${colouring.bipartite}, triangle network odd cycle: [${oddCheck.bipartite ? '' : oddCheck.oddCycle.join(', ')}]`);
+console.log(`   ✅ Expected: true, a 3-cycle over 0, 1, 2\n`);
+
+// Test Eulerian trails
+console.log('31. Eulerian Path (Hierholzer):');
+// de Bruijn B(2, 3): nodes are 2-bit strings, each edge appends one bit
+const bruijnEdges: Array<[number, number]> = [];
+for (let v = 0; v < 4; v++) for (const bit of [0, 1]) bruijnEdges.push([v, ((v << 1) | bit) & 3]);
+const bruijn = eulerianPath(4, bruijnEdges, true);
+const sequence = bruijn.ok ? bruijn.path.slice(1).map(v => v & 1).join('') : '';
+console.log(`   de Bruijn circuit: [${bruijn.ok ? bruijn.path.join(', ') : ''}], sequence ${sequence}`);
+console.log(`   ✅ Circuit over all 8 edges: ${bruijn.ok && bruijn.circuit && bruijn.edges.length === 8}`);
+const star = eulerianPath(4, [[0, 1], [0, 2], [0, 3]], false);
+console.log(`   Star graph: ${JSON.stringify(star)}`);
+console.log(`   ✅ Expected reason: odd-degree\n`);
+
+// Test graph file formats
+console.log('32. Graph File Formats:');
+const dimacs = parseDimacs('c tiny network\np max 4 5\nn 1 s\nn 4 t\na 1 2 3\na 1 3 2\na 2 3 1\na 2 4 2\na 3 4 3\n');
+console.log(`   DIMACS: ${dimacs.kind}, ${dimacs.graph.n} vertices, source ${dimacs.source}, sink ${dimacs.sink}, max flow ${maxFlow(dimacs.graph, dimacs.source!, dimacs.sink!).value}`);
+console.log(`   ✅ Expected: max, 4 vertices, source 0, sink 3, max flow 5`);
+const listed = parseEdgeList('# u v w\na b 1\nb c 2\na c 5\nc d 1\n');
+const fromJson = parseJsonAdjacency('{"a": {"b": 1, "c": 5}, "b": {"c": 2}, "c": {"d": 1}, "d": {}}');
+const fromXml = parseGraphML('<graphml><graph edgedefault="directed"><node id="a"/><node id="b"/><node id="c"/>' +
+  '<edge source="a" target="b"><data key="weight">4</data></edge><edge source="b" target="c"/></graph></graphml>');
+console.log(`   Edge list a->d: ${dijkstraPaths(listed, listed.id('a')).dist[listed.id('d')]}, JSON a->d: ${dijkstraPaths(fromJson, 0).dist[fromJson.id('d')]}, GraphML edges: ${JSON.stringify(fromXml.edges())}`);
+console.log(`   ✅ Expected: 4, 4, [[0,1,4],[1,2,1]]`);
+const oneBasedList = parseEdgeList('1 2\n2 3\n', { oneBased: true, directed: true });
+let edgeListError = '';
+try {
+  parseEdgeList('1 2\n3\n');
+} catch (e) {
+  edgeListError = (e as Error).message;
+}
+console.log(`   One-based: ${oneBasedList.n} vertices ${JSON.stringify(oneBasedList.edges())}, short row: ${edgeListError}`);
+console.log(`   ✅ Expected: 3 vertices [[0,1,1],[1,2,1]], Line 2: expected "u v" or "u v w", got "3"`);
+const parseError = (parse: () => unknown) => {
+  try {
+    parse();
+    return 'no error';
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+console.log(`   Negative id: ${parseError(() => parseEdgeList('0 1\n-1 2\n'))}`);
+console.log(`   ✅ Expected: Line 2: vertex id -1 is out of range (expected 0 or more)`);
+console.log(`   Zero with oneBased: ${parseError(() => parseEdgeList('1 2\n0 1\n', { oneBased: true }))}`);
+console.log(`   ✅ Expected: Line 2: vertex id 0 is out of range (expected 1 or more)`);
+console.log(`   DIMACS arc past n: ${parseError(() => parseDimacs('p sp 2 1\na 1 3 4\n'))}`);
+console.log(`   ✅ Expected: Line 2: vertex id 3 is out of range (expected 1..2)`);
+console.log(`   DIMACS missing weight: ${parseError(() => parseDimacs('p sp 2 1\na 1 2\n'))}, bad weight: ${parseError(() => parseEdgeList('a b x\n'))}`);
+console.log(`   ✅ Expected: Line 2: expected a number, got "", Line 1: expected a number, got "x"`);
+// the CLI takes and prints a DIMACS file's own 1-based ids
+const cliDir = await mkdtemp(join(tmpdir(), 'cli-test-'));
+try {
+  await writeFile(join(cliDir, 'road.gr'), 'p sp 4 4\na 1 2 1\na 2 4 2\na 1 3 5\na 3 4 1\n');
+  const cli = spawnSync(process.execPath, [...process.execArgv, 'cli.ts', 'dijkstra', '-f', join(cliDir, 'road.gr'), '-s', '1', '-t', '4'], { encoding: 'utf8' });
+  console.log(`   CLI on road.gr -s 1 -t 4: ${cli.stdout.split('\n').find(l => l.startsWith('Result')) ?? cli.stderr.trim()}`);
+  console.log(`   ✅ Expected: Result: 1 -> 2 -> 4 (cost 3)`);
+} finally {
+  await rm(cliDir, { recursive: true, force: true });
+}
+const dot = toDot(listed, { edges: kruskal(listed) });
+console.log(`   DOT MST edges highlighted: ${dot.split('\n').filter(l => l.includes('--') && l.includes('red')).length}`);
+console.log(`   ✅ Expected: 3\n`);
+
+// Test DAG toolkit
+console.log('33. DAG Orders, Paths and Critical Path:');
+// 0: design (3), 1: backend (5), 2: frontend (2), 3: testing (2), 4: docs (1)
+const tasks = [[1, 2, 4], [3], [3], [], []];
+const durations = [3, 5, 2, 2, 1];
+console.log(`   Smallest order: [${lexicographicTopologicalSort(tasks).join(', ')}], all orders: ${allTopologicalSorts(tasks).length}`);
+console.log(`   ✅ Expected: [0, 1, 2, 3, 4], 8`);
+const longest = dagLongestPaths([[[1, 3], [2, 3]], [[3, 5]], [[3, 2]], []], 0);
+console.log(`   Longest 0->3: ${longest.dist[3]} via [${longest.pathTo(3)!.join(', ')}]`);
+console.log(`   ✅ Expected: 8 via [0, 1, 3]`);
+const plan = criticalPath(durations, tasks);
+console.log(`   Duration ${plan.duration}, critical [${plan.critical.join(', ')}], slack [${plan.slack.join(', ')}]`);
+console.log(`   ✅ Expected: 10, [0, 1, 3], [0, 0, 3, 0, 6]\n`);
+
+// Test comparator-generic sorting
+console.log('34. Generic Sorting (comparators, keys, typed arrays):');
+const people = [{ name: 'Ada', age: 36 }, { name: 'Bo', age: 25 }, { name: 'Cy', age: 36 }, { name: 'Di', age: 25 }];
+const byAge = mergeSort(people, { key: p => p.age }).map(p => p.name);
+const byNameDesc = quickSort(people, (a, b) => b.name.localeCompare(a.name)).map(p => p.name);
+console.log(`   By age (stable): [${byAge.join(', ')}], by name desc: [${byNameDesc.join(', ')}]`);
+console.log(`   ✅ Expected: [Bo, Di, Ada, Cy], [Di, Cy, Bo, Ada]`);
+const samples = Float64Array.of(2.5, -1, 0.5, 3);
+const sortedSamples = quickSort(samples);
+mergeSortInPlace(samples);
+console.log(`   Float64Array: ${sortedSamples.constructor.name} [${sortedSamples.join(', ')}], in place [${samples.join(', ')}]`);
+console.log(`   ✅ Expected: Float64Array [-1, 0.5, 2.5, 3] twice`);
+const withNaN = Float64Array.of(3, NaN, -1, 0, NaN, -0, 2);
+const nativeOrder = Array.from(withNaN.slice().sort());
+const nanResults = [quickSort(withNaN), mergeSort(withNaN), timSort(withNaN), heapSort(withNaN)];
+console.log(`   With NaN: [${Array.from(mergeSort(withNaN)).map(x => (Object.is(x, -0) ? '-0' : x)).join(', ')}]`);
+console.log(`   ✅ Expected: [-1, -0, 0, 2, 3, NaN, NaN], all four sorts match TypedArray#sort: ${nanResults.every(r => Array.from(r).every((x, i) => Object.is(x, nativeOrder[i])))}\n`);
+
+// Test introsort hardening
+console.log('35. QuickSort (3-way partition, seeded introsort):');
+const manyDuplicates = Array.from({ length: 1000 }, (_, i) => (i * 7) % 3);
+let seededComparisons = 0;
+const countComparisons = (a: number, b: number) => (seededComparisons++, a - b);
+const firstRun = quickSort(manyDuplicates, { seed: 42, compare: countComparisons });
+const firstCount = seededComparisons;
+seededComparisons = 0;
+quickSort(manyDuplicates, { seed: 42, compare: countComparisons });
+console.log(`   Sorted: ${firstRun.every((x, i) => i === 0 || firstRun[i - 1] <= x)}, comparisons ${firstCount} (same seed again: ${seededComparisons})`);
+console.log(`   ✅ Expected: sorted, identical comparison counts under ~3000\n`);
+
+// Test heap, radix, counting and TimSort
+console.log('36. HeapSort / RadixSort / CountingSort / TimSort:');
+const logLines = [{ t: 3, msg: 'c' }, { t: 1, msg: 'a' }, { t: 3, msg: 'd' }, { t: 2, msg: 'b' }];
+console.log(`   heapSort: [${heapSort(unsorted).join(', ')}], radixSort: [${radixSort(Int32Array.of(7, -3, 2 ** 30, 0)).join(', ')}]`);
+console.log(`   ✅ Expected: [5, 11, 12, 22, 25, 34, 64, 90], [-3, 0, 7, 1073741824]`);
+console.log(`   countingSort by t: [${countingSort(logLines, { key: l => l.t }).map(l => l.msg).join('')}], timSort by t: [${timSort(logLines, { key: l => l.t }).map(l => l.msg).join('')}]`);
+console.log(`   ✅ Expected (stable): [abcd], [abcd]\n`);
+
+// Test binary search family
+console.log('37. Binary Search Family (bounds, predicates, bisection, galloping):');
+const withDuplicates = [1, 3, 3, 3, 7, 9];
+const byLength = ['a', 'bb', 'cc', 'dddd'];
+console.log(`   equalRange(3): [${equalRange(withDuplicates, 3).join(', ')}], by length 'xx': [${equalRange(byLength, 'xx', { key: w => w.length }).join(', ')}]`);
+console.log(`   ✅ Expected: [1, 4], [1, 3]`);
+// smallest capacity that ships all packages in 3 days (LeetCode 1011 style)
+const packages = [3, 2, 2, 4, 1, 4];
+const daysNeeded = (cap: number) => packages.reduce(([days, load], w) => (load + w > cap ? [days + 1, w] : [days, load + w]), [1, 0])[0];
+const shipCapacity = firstTrue(Math.max(...packages), 16, cap => daysNeeded(cap) <= 3);
+console.log(`   Min capacity: ${shipCapacity}, cube root of 10: ${bisect(0, 10, x => x ** 3 >= 10, 1e-12).toFixed(6)}, galloping into [0, 2, 4, ...] for 1001: ${exponentialSearch(i => 2 * i, 1001)}`);
+console.log(`   ✅ Expected: 6, 2.154435, 501\n`);
+
+// Test external merge sort
+console.log('38. External Merge Sort (k-way, temp-file runs):');
+const sortDir = await mkdtemp(join(tmpdir(), 'algo-test-'));
+try {
+  async function* readings() {
+    for (let i = 0; i < 1000; i++) yield (i * 7919) % 1000;
+  }
+  // 800-byte budget = 100 records per run, merged 4 at a time
+  const sortStats = await externalSort(readings(), join(sortDir, 'sorted.txt'), { memoryBytes: 800, fanIn: 4 });
+  const sortedLines = (await readFile(join(sortDir, 'sorted.txt'), 'utf8')).trim().split('\n').map(Number);
+  console.log(`   Records ${sortStats.records}, runs ${sortStats.runs}, merge passes ${sortStats.mergePasses}`);
+  console.log(`   ✅ Expected: 1000, 10, 2; output is 0..999 in order: ${sortedLines.every((x, i) => x === i)}`);
+  // NaN and -0 spread over several runs must still merge into TypedArray#sort order
+  const gappy = Float64Array.from({ length: 500 }, (_, i) => (i % 13 === 0 ? NaN : i % 17 === 0 ? -0 : (i * 37) % 101 - 50));
+  await externalSort(gappy, join(sortDir, 'sorted.bin'), { memoryBytes: 800, fanIn: 4, format: 'float64' });
+  const merged = await readFile(join(sortDir, 'sorted.bin'));
+  const mergedView = new DataView(merged.buffer, merged.byteOffset, merged.length);
+  const gappyOrder = gappy.slice().sort();
+  console.log(`   With NaN and -0 (float64 file): matches TypedArray#sort: ${gappyOrder.every((x, i) => Object.is(x, mergedView.getFloat64(i * 8, true)))}`);
+  console.log(`   ✅ Expected: true\n`);
+} finally {
+  await rm(sortDir, { recursive: true, force: true });
+}
+
+// Test parallel sample sort
+console.log('39. Parallel Sample Sort (worker_threads):');
+const sensorValues = Float64Array.from({ length: 20000 }, (_, i) => Math.sin(i) * 1000);
+// force two workers even on a single-core machine
+const parallelSorted = await parallelSort(sensorValues, { threads: 2, threshold: 1000 });
+const referenceSorted = sensorValues.slice().sort();
+console.log(`   Shared output: ${parallelSorted.buffer instanceof SharedArrayBuffer}, matches TypedArray#sort: ${parallelSorted.every((x, i) => x === referenceSorted[i])}`);
+const gappyValues = Float64Array.from({ length: 3000 }, (_, i) => (i % 7 === 0 ? NaN : i % 11 === 0 ? -0 : (i * 37) % 101 - 50));
+const gappyReference = gappyValues.slice().sort();
+const sameAsNative = (xs: Float64Array) => xs.every((x, i) => Object.is(x, gappyReference[i]));
+const gappyParallel = await parallelSort(gappyValues, { threads: 2, threshold: 1000 });
+const gappyFallback = await parallelSort(gappyValues); // below the default threshold
+console.log(`   With NaN and -0, workers match: ${sameAsNative(gappyParallel)}, fallback matches: ${sameAsNative(gappyFallback)}`);
+console.log(`   ✅ Expected: true, true, true, true\n`);
+
+// Test streaming KMP and string functions
+console.log('40. Streaming KMP, Prefix and Z Functions:');
+const logMatcher = new KmpMatcher('ERROR');
+const logChunks = ['ok ok ERR', 'OR disk ERROR', ' net ER', 'ROR'];
+const logHits = logChunks.flatMap(chunk => logMatcher.push(chunk));
+console.log(`   Matches across chunks: [${logHits.join(', ')}] (same as whole-text search: ${JSON.stringify(logHits) === JSON.stringify(kmpSearch(logChunks.join(''), 'ERROR'))})`);
+console.log(`   ✅ Expected: [6, 17, 27], true`);
+const repeated = 'abcabcabc';
+const piValues = prefixFunction(repeated);
+console.log(`   pi: [${piValues.join(', ')}], period ${repeated.length - piValues[repeated.length - 1]}, z: [${zFunction(repeated).join(', ')}]`);
+console.log(`   ✅ Expected: [0, 0, 0, 1, 2, 3, 4, 5, 6], period 3, z: [9, 0, 0, 6, 0, 0, 3, 0, 0]\n`);
+
 console.log('🎉 All tests completed!');